@@ -0,0 +1,110 @@
+// Named Pipedrive accounts, and the `account` tool argument that selects one per call
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { apiTokenCredentials, hasScopedCredentials, PipedriveCredentials, withCredentials } from "./credentials.js";
+import { errorResult, PipedriveError } from "./errors.js";
+import { wrapToolRegistration } from "./toolHooks.js";
+
+export interface Account {
+  name: string;
+  // Company subdomain the API is called on, e.g. "acme"; null uses api.pipedrive.com
+  companyDomain: string | null;
+  credentials: PipedriveCredentials;
+}
+
+const ACCOUNT_NAME = /^[a-z0-9][a-z0-9_-]*$/;
+
+// Environment variable prefix of a named account, e.g. PIPEDRIVE_ACCOUNT_EU_SALES_ for "eu-sales"
+function accountEnvPrefix(name: string): string {
+  return `PIPEDRIVE_ACCOUNT_${name.toUpperCase().replace(/-/g, '_')}_`;
+}
+
+/**
+ * Reads the configured accounts from the environment:
+ * - PIPEDRIVE_API_TOKEN (and PIPEDRIVE_COMPANY_DOMAIN) is the account named "default"
+ * - PIPEDRIVE_ACCOUNTS=sales,support names further accounts, each configured with
+ *   PIPEDRIVE_ACCOUNT_<NAME>_API_TOKEN and PIPEDRIVE_ACCOUNT_<NAME>_COMPANY_DOMAIN
+ * - PIPEDRIVE_DEFAULT_ACCOUNT picks the account used when a tool call names none
+ *   (default: "default", or else the first named account)
+ */
+export function loadAccounts(env: NodeJS.ProcessEnv): { accounts: Account[]; defaultAccount: Account | null } {
+  const accounts: Account[] = [];
+
+  if (env.PIPEDRIVE_API_TOKEN) {
+    const companyDomain = env.PIPEDRIVE_COMPANY_DOMAIN?.trim() || null;
+    accounts.push({ name: 'default', companyDomain, credentials: apiTokenCredentials(env.PIPEDRIVE_API_TOKEN, companyDomain) });
+  }
+
+  const names = (env.PIPEDRIVE_ACCOUNTS || '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  for (const name of names) {
+    if (!ACCOUNT_NAME.test(name)) {
+      throw new Error(`Invalid account name "${name}" in PIPEDRIVE_ACCOUNTS: use lower-case letters, digits, "-" and "_"`);
+    }
+    if (accounts.some(account => account.name === name)) {
+      throw new Error(`Account "${name}" is configured more than once`);
+    }
+    const prefix = accountEnvPrefix(name);
+    const token = env[`${prefix}API_TOKEN`]?.trim();
+    if (!token) {
+      throw new Error(`${prefix}API_TOKEN is required for account "${name}"`);
+    }
+    const companyDomain = env[`${prefix}COMPANY_DOMAIN`]?.trim() || null;
+    accounts.push({ name, companyDomain, credentials: apiTokenCredentials(token, companyDomain) });
+  }
+
+  const defaultName = env.PIPEDRIVE_DEFAULT_ACCOUNT?.trim().toLowerCase();
+  const defaultAccount = defaultName ? accounts.find(account => account.name === defaultName) : accounts[0];
+  if (defaultName && !defaultAccount) {
+    throw new Error(`PIPEDRIVE_DEFAULT_ACCOUNT "${defaultName}" is not a configured account`);
+  }
+
+  return { accounts, defaultAccount: defaultAccount ?? null };
+}
+
+let configuredAccounts: Account[] = [];
+let defaultAccountName: string | null = null;
+
+export function setAccounts(accounts: Account[], defaultAccount: Account | null): void {
+  configuredAccounts = accounts;
+  defaultAccountName = defaultAccount?.name ?? null;
+}
+
+export function listAccounts(): { accounts: Account[]; defaultAccount: string | null } {
+  return { accounts: [...configuredAccounts], defaultAccount: defaultAccountName };
+}
+
+/**
+ * Gives every tool registered on `server` from now on an optional `account`
+ * argument. A call that names an account runs entirely with that account's
+ * credentials, so one response never combines data from several accounts.
+ * Sessions that brought their own credentials can't switch to a configured
+ * account, so changes stay attributed to the caller's own user.
+ * Nothing changes while fewer than two accounts are configured.
+ */
+export function addAccountArgument(server: McpServer): void {
+  if (configuredAccounts.length < 2) {
+    return;
+  }
+
+  const names = configuredAccounts.map(account => account.name) as [string, ...string[]];
+  const accountParam = z.enum(names).optional().describe(
+    `Pipedrive account to use (see list-accounts)${defaultAccountName ? `; default: ${defaultAccountName}` : ''}`
+  );
+
+  wrapToolRegistration(server, tool => ({
+    ...tool,
+    paramsSchema: { ...tool.paramsSchema, account: accountParam },
+    handler: (input, extra) => {
+      const { account, ...args } = input;
+      const selected = configuredAccounts.find(candidate => candidate.name === account);
+      if (selected && hasScopedCredentials()) {
+        return errorResult(`selecting account "${account}"`, new PipedriveError(
+          "This session is bound to its own Pipedrive credentials; leave out account to use them",
+          { category: 'forbidden' }
+        ));
+      }
+      return selected ? withCredentials(selected.credentials, () => tool.handler(args, extra)) : tool.handler(args, extra);
+    }
+  }));
+}
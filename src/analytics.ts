@@ -0,0 +1,195 @@
+// Pipeline analytics computed from deals and their stage changes: stage
+// conversion, time in stage, win rate and weighted forecast
+
+export interface AnalyticsStage {
+  id: number;
+  name: string;
+  pipeline_id: number;
+  order_nr?: number | null;
+  deal_probability?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ratios are rounded to three decimals, amounts to cents and durations to tenths of a day
+const ratio = (part: number, whole: number): number | null => whole > 0 ? Math.round(part / whole * 1000) / 1000 : null;
+const money = (amount: number): number => Math.round(amount * 100) / 100;
+const days = (ms: number): number => Math.round(ms / DAY_MS * 10) / 10;
+
+function addTo(totals: Record<string, number>, currency: unknown, amount: unknown): void {
+  if (typeof amount !== 'number') {
+    return;
+  }
+  const key = typeof currency === 'string' && currency ? currency : 'none';
+  totals[key] = money((totals[key] ?? 0) + amount);
+}
+
+// API v1 changelog times are `YYYY-MM-DD HH:MM:SS` in UTC; API v2 times are ISO 8601
+export function parseApiTime(value: unknown): number | null {
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+  const parsed = Date.parse(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+// Stages of one pipeline in the order deals move through them
+export function orderedStages(stages: AnalyticsStage[], pipelineId: number): AnalyticsStage[] {
+  return stages
+    .filter(stage => stage.pipeline_id === pipelineId)
+    .sort((a, b) => (a.order_nr ?? 0) - (b.order_nr ?? 0) || a.id - b.id);
+}
+
+/**
+ * Counts and values per stage, stage-to-stage conversion and win rate of the
+ * deals of one pipeline. A deal counts as having reached every stage up to the
+ * one it is in (or was lost in); won deals reached all of them. This assumes
+ * deals move forward through the stages in order.
+ */
+export function conversionStats(stages: AnalyticsStage[], deals: any[]) {
+  const position = new Map(stages.map((stage, index) => [stage.id, index]));
+  const reached = stages.map(() => 0);
+  const perStage = stages.map(() => ({ open: 0, lost: 0, openValue: {} as Record<string, number> }));
+  const wonValue: Record<string, number> = {};
+  const openValue: Record<string, number> = {};
+  let won = 0;
+  let lost = 0;
+  let open = 0;
+
+  for (const deal of deals) {
+    const index = position.get(deal.stage_id);
+    const furthest = deal.status === 'won' ? stages.length - 1 : index;
+    if (furthest !== undefined) {
+      for (let step = 0; step <= furthest; step++) {
+        reached[step]++;
+      }
+    }
+    if (deal.status === 'won') {
+      won++;
+      addTo(wonValue, deal.currency, deal.value);
+    } else if (deal.status === 'lost') {
+      lost++;
+      if (index !== undefined) {
+        perStage[index].lost++;
+      }
+    } else if (deal.status === 'open') {
+      open++;
+      addTo(openValue, deal.currency, deal.value);
+      if (index !== undefined) {
+        perStage[index].open++;
+        addTo(perStage[index].openValue, deal.currency, deal.value);
+      }
+    }
+  }
+
+  return {
+    deal_count: deals.length,
+    open_count: open,
+    won_count: won,
+    lost_count: lost,
+    win_rate: ratio(won, won + lost),
+    open_value_by_currency: openValue,
+    won_value_by_currency: wonValue,
+    stages: stages.map((stage, index) => ({
+      stage_id: stage.id,
+      stage_name: stage.name,
+      open_count: perStage[index].open,
+      open_value_by_currency: perStage[index].openValue,
+      lost_count: perStage[index].lost,
+      reached_count: reached[index],
+      // From the last stage, the next step is winning the deal
+      conversion_to_next: ratio(index + 1 < stages.length ? reached[index + 1] : won, reached[index])
+    }))
+  };
+}
+
+/**
+ * Open deals of one pipeline by expected close month, with their value and
+ * their value weighted by the deal's probability, or its stage's when the deal
+ * has none.
+ */
+export function weightedForecast(stages: AnalyticsStage[], deals: any[]) {
+  const probabilities = new Map(stages.map(stage => [stage.id, stage.deal_probability]));
+  const months = new Map<string, { deal_count: number; value_by_currency: Record<string, number>; weighted_value_by_currency: Record<string, number> }>();
+  const undated = { deal_count: 0, value_by_currency: {} as Record<string, number> };
+
+  for (const deal of deals) {
+    if (deal.status !== 'open') {
+      continue;
+    }
+    const month = typeof deal.expected_close_date === 'string' ? deal.expected_close_date.slice(0, 7) : null;
+    if (!month) {
+      undated.deal_count++;
+      addTo(undated.value_by_currency, deal.currency, deal.value);
+      continue;
+    }
+    const entry = months.get(month) ?? { deal_count: 0, value_by_currency: {}, weighted_value_by_currency: {} };
+    months.set(month, entry);
+    const probability = deal.probability ?? probabilities.get(deal.stage_id) ?? 100;
+    entry.deal_count++;
+    addTo(entry.value_by_currency, deal.currency, deal.value);
+    addTo(entry.weighted_value_by_currency, deal.currency, typeof deal.value === 'number' ? deal.value * probability / 100 : undefined);
+  }
+
+  return {
+    months: [...months.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, entry]) => ({ month, ...entry })),
+    without_expected_close_date: undated
+  };
+}
+
+export interface StageStay {
+  stage_id: number;
+  ms: number;
+  // False while the deal is still open in the stage
+  completed: boolean;
+}
+
+/**
+ * How long a deal spent in each stage it was in, from its add time, the
+ * `stage_id` changes of its changelog and its close time.
+ */
+export function stageStays(deal: any, changelog: any[], now = Date.now()): StageStay[] {
+  const changes = changelog
+    .filter(change => change?.field_key === 'stage_id')
+    .map(change => ({ time: parseApiTime(change.time ?? change.log_time), from: Number(change.old_value), to: Number(change.new_value) }))
+    .filter((change): change is { time: number; from: number; to: number } => change.time !== null)
+    .sort((a, b) => a.time - b.time);
+
+  let start = parseApiTime(deal.add_time);
+  let stage = changes.length > 0 && Number.isFinite(changes[0].from) ? changes[0].from : deal.stage_id;
+  const stays: StageStay[] = [];
+  for (const change of changes) {
+    if (start !== null && Number.isFinite(stage)) {
+      stays.push({ stage_id: stage, ms: Math.max(0, change.time - start), completed: true });
+    }
+    stage = change.to;
+    start = change.time;
+  }
+
+  const closed = deal.status === 'won' || deal.status === 'lost';
+  const end = closed ? parseApiTime(deal.won_time ?? deal.lost_time ?? deal.close_time) : now;
+  if (start !== null && end !== null && Number.isFinite(stage)) {
+    stays.push({ stage_id: stage, ms: Math.max(0, end - start), completed: closed });
+  }
+  return stays;
+}
+
+// Average and median time in each stage of a pipeline over the stays of many deals
+export function stageVelocity(stages: AnalyticsStage[], stays: StageStay[]) {
+  return stages.map(stage => {
+    const completed = stays.filter(stay => stay.stage_id === stage.id && stay.completed).map(stay => stay.ms).sort((a, b) => a - b);
+    const current = stays.filter(stay => stay.stage_id === stage.id && !stay.completed).map(stay => stay.ms);
+    const average = (values: number[]) => values.length > 0 ? days(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+    return {
+      stage_id: stage.id,
+      stage_name: stage.name,
+      completed_stays: completed.length,
+      average_days: average(completed),
+      median_days: completed.length > 0 ? days((completed[Math.floor((completed.length - 1) / 2)] + completed[Math.floor(completed.length / 2)]) / 2) : null,
+      open_deals_in_stage: current.length,
+      average_days_so_far: average(current)
+    };
+  });
+}
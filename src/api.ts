@@ -0,0 +1,224 @@
+// Thin REST client for Pipedrive endpoints that are called directly rather than through the SDK
+
+import { authHeaders, currentCredentials, PipedriveCredentials } from "./credentials.js";
+import { errorFromResponse } from "./errors.js";
+import { logger } from "./logger.js";
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface PipedriveRequest {
+  method: HttpMethod;
+  // Versioned path, e.g. `/v2/deals/123`
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: Record<string, unknown>;
+}
+
+function buildUrl(request: PipedriveRequest, credentials: PipedriveCredentials = currentCredentials()): string {
+  const url = new URL(`${credentials.apiDomain()}/api${request.path}`);
+  for (const [key, value] of Object.entries(request.query || {})) {
+    if (value !== undefined) {
+      url.searchParams.set(key, String(value));
+    }
+  }
+  return url.toString();
+}
+
+// Drop arguments that were not given so they are not sent to the API
+export function withoutUndefined<T extends Record<string, unknown>>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+// The request as it would be sent, without credentials, for previews and logs
+export function describeRequest(request: PipedriveRequest): { method: HttpMethod; url: string; body?: Record<string, unknown> } {
+  return {
+    method: request.method,
+    url: buildUrl(request),
+    ...(request.body ? { body: request.body } : {})
+  };
+}
+
+// Counters shared by all requests made on behalf of one tool call
+export interface RequestStats {
+  requests: number;
+  retries: number;
+}
+
+export function createRequestStats(): RequestStats {
+  return { requests: 0, retries: 0 };
+}
+
+// Limits are read lazily so values loaded by dotenv at startup are picked up
+function requestLimits() {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+  return {
+    maxRetries: number(process.env.PIPEDRIVE_MAX_RETRIES, 4),
+    maxConcurrency: Math.max(1, number(process.env.PIPEDRIVE_MAX_CONCURRENCY, 4)),
+    baseDelayMs: 500,
+    maxDelayMs: 30_000
+  };
+}
+
+// Simple semaphore capping the number of requests in flight
+let activeRequests = 0;
+const waitingRequests: Array<() => void> = [];
+
+async function acquireSlot(): Promise<void> {
+  if (activeRequests < requestLimits().maxConcurrency) {
+    activeRequests++;
+    return;
+  }
+  // The releasing request hands its slot over directly
+  await new Promise<void>(resolve => waitingRequests.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waitingRequests.shift();
+  if (next) {
+    next();
+  } else {
+    activeRequests--;
+  }
+}
+
+// Set when Pipedrive reports the rate limit window of a set of credentials is used up;
+// their requests wait until then. Keyed by credentials ID, since each account has its own limits.
+const pausedUntil = new Map<string, number>();
+
+function pauseUntil(credentials: PipedriveCredentials, time: number): void {
+  pausedUntil.set(credentials.id, Math.max(pausedUntil.get(credentials.id) ?? 0, time));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function headerSeconds(response: Response, name: string): number | null {
+  const value = response.headers.get(name);
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  // Retry-After may also be an HTTP date
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, (date - Date.now()) / 1000);
+}
+
+// Exponential backoff with full jitter, unless the server said how long to wait
+function retryDelayMs(attempt: number, response?: Response): number {
+  const { baseDelayMs, maxDelayMs } = requestLimits();
+  const hinted = response
+    ? headerSeconds(response, 'retry-after') ?? headerSeconds(response, 'x-ratelimit-reset')
+    : null;
+  if (hinted !== null) {
+    return Math.min(maxDelayMs, hinted * 1000 + Math.random() * baseDelayMs);
+  }
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+function isRetryable(request: PipedriveRequest, status: number): boolean {
+  if (status === 429) {
+    return true;
+  }
+  // Only requests that are safe to repeat are retried after server errors
+  const idempotent = request.method === 'GET' || request.method === 'PUT' || request.method === 'DELETE';
+  return idempotent && (status === 500 || status === 502 || status === 503 || status === 504);
+}
+
+/**
+ * Sends a request to the Pipedrive REST API and returns the parsed response
+ * envelope (`success`, `data`, `additional_data`). Throws on non-2xx responses.
+ *
+ * Requests share a concurrency cap and honour Pipedrive's rate-limit headers.
+ * Rate-limited and transient failures are retried with jittered backoff; the
+ * optional `stats` object records how many requests and retries were made.
+ * Failed responses are thrown as a PipedriveError.
+ * The request is authenticated with the credentials of the current scope.
+ */
+export async function pipedriveRequest<T = any>(request: PipedriveRequest, stats?: RequestStats): Promise<T> {
+  const { maxRetries } = requestLimits();
+  const credentials = currentCredentials();
+  let refreshed = false;
+
+  for (let attempt = 0; ; attempt++) {
+    const wait = (pausedUntil.get(credentials.id) ?? 0) - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+
+    await acquireSlot();
+    let response: Response;
+    try {
+      if (stats) {
+        stats.requests++;
+      }
+      response = await fetch(buildUrl(request, credentials), {
+        method: request.method,
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...await authHeaders(credentials)
+        },
+        body: request.body ? JSON.stringify(request.body) : undefined
+      });
+    } catch (error) {
+      // Network failures never reached Pipedrive's handlers, so only reads are retried
+      if (request.method !== 'GET' || attempt >= maxRetries) {
+        throw error;
+      }
+      if (stats) {
+        stats.retries++;
+      }
+      await sleep(retryDelayMs(attempt));
+      continue;
+    } finally {
+      releaseSlot();
+    }
+
+    if (response.headers.get('x-ratelimit-remaining') === '0') {
+      const reset = headerSeconds(response, 'x-ratelimit-reset') ?? 1;
+      pauseUntil(credentials, Date.now() + reset * 1000);
+    }
+
+    const payload = await response.json().catch(() => null);
+
+    if (response.ok) {
+      return payload as T;
+    }
+
+    // An expired or revoked OAuth access token is refreshed once
+    if (response.status === 401 && !refreshed && await credentials.refresh()) {
+      refreshed = true;
+      continue;
+    }
+
+    if (attempt < maxRetries && isRetryable(request, response.status)) {
+      const delay = retryDelayMs(attempt, response);
+      if (response.status === 429) {
+        pauseUntil(credentials, Date.now() + delay);
+      }
+      if (stats) {
+        stats.retries++;
+      }
+      logger.warn("Retrying Pipedrive API request", {
+        method: request.method,
+        path: request.path,
+        status: response.status,
+        delay_ms: Math.round(delay),
+        attempt: attempt + 1,
+        max_retries: maxRetries
+      });
+      await sleep(delay);
+      continue;
+    }
+
+    const retryAfter = headerSeconds(response, 'retry-after') ?? headerSeconds(response, 'x-ratelimit-reset');
+    throw errorFromResponse(response.status, payload, retryAfter, `Pipedrive API ${request.method} ${request.path}`);
+  }
+}
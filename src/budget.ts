@@ -0,0 +1,153 @@
+// Response size budget: results too large for a model's context are cut to a
+// preview with aggregate stats, and the rest is kept for paging by handle
+
+import { randomUUID } from "node:crypto";
+import { currentCredentials } from "./credentials.js";
+
+// How long a cut result stays available to get-result-page
+const RESULT_TTL_MS = 30 * 60 * 1000;
+// Cut results kept at once; the oldest is dropped first
+const MAX_STORED_RESULTS = 10;
+
+interface StoredResult {
+  items: unknown[];
+  noun: string;
+  // Only the credentials that produced a result may page through it
+  credentialsId: string;
+  expiresAt: number;
+}
+
+export interface SummarizedResult {
+  reason: string;
+  total_items: number;
+  returned_items: number;
+  max_response_bytes: number;
+  result_handle: string;
+  expires_at: string;
+  stats: Record<string, unknown>;
+}
+
+export interface BudgetedItems<T> {
+  items: T[];
+  // Set when the items went over the budget and were cut
+  summarized: SummarizedResult | null;
+}
+
+// Limits are read lazily so values loaded by dotenv at startup are picked up
+function budgetLimits() {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+  };
+  return {
+    maxResponseBytes: number(process.env.PIPEDRIVE_MAX_RESPONSE_BYTES, 100_000),
+    previewItems: number(process.env.PIPEDRIVE_PREVIEW_ITEMS, 25)
+  };
+}
+
+const storedResults = new Map<string, StoredResult>();
+
+function sizeOf(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value), 'utf8');
+}
+
+function dropExpired(now = Date.now()): void {
+  for (const [handle, stored] of storedResults) {
+    if (stored.expiresAt <= now) {
+      storedResults.delete(handle);
+    }
+  }
+}
+
+// The longest prefix of `items`, up to `count`, that fits in `maxBytes`
+function fittingPrefix<T>(items: T[], count: number, maxBytes: number): T[] {
+  let prefix = items.slice(0, count);
+  while (prefix.length > 1 && sizeOf(prefix) > maxBytes) {
+    prefix = prefix.slice(0, Math.ceil(prefix.length / 2));
+  }
+  return prefix;
+}
+
+/**
+ * Checks list items against PIPEDRIVE_MAX_RESPONSE_BYTES. Items within the
+ * budget are returned as they are. Otherwise only the first
+ * PIPEDRIVE_PREVIEW_ITEMS are returned, together with `stats()` over all of
+ * them and a handle get-result-page accepts to read the rest.
+ */
+export function budgetItems<T>(items: T[], noun: string, stats: () => Record<string, unknown>): BudgetedItems<T> {
+  const { maxResponseBytes, previewItems } = budgetLimits();
+  const size = sizeOf(items);
+  if (size <= maxResponseBytes) {
+    return { items, summarized: null };
+  }
+
+  dropExpired();
+  while (storedResults.size >= MAX_STORED_RESULTS) {
+    storedResults.delete(storedResults.keys().next().value!);
+  }
+  const handle = randomUUID();
+  const expiresAt = Date.now() + RESULT_TTL_MS;
+  storedResults.set(handle, { items, noun, credentialsId: currentCredentials().id, expiresAt });
+
+  const preview = fittingPrefix(items, previewItems, maxResponseBytes);
+  return {
+    items: preview,
+    summarized: {
+      reason: `The ${items.length} ${noun} take ${size} bytes, over the response budget of ${maxResponseBytes} bytes`,
+      total_items: items.length,
+      returned_items: preview.length,
+      max_response_bytes: maxResponseBytes,
+      result_handle: handle,
+      expires_at: new Date(expiresAt).toISOString(),
+      stats: stats()
+    }
+  };
+}
+
+/**
+ * Reads `limit` items of a cut result from `offset`, fewer if they would go
+ * over the budget. Throws when the handle is unknown, has expired or belongs
+ * to other credentials.
+ */
+export function readStoredResult(handle: string, offset: number, limit?: number) {
+  dropExpired();
+  const stored = storedResults.get(handle);
+  if (!stored || stored.credentialsId !== currentCredentials().id) {
+    throw new Error(`Result ${handle} not found; it may have expired. Repeat the original call to get a new handle.`);
+  }
+  if (offset >= stored.items.length) {
+    throw new Error(`offset ${offset} is past the last of the ${stored.items.length} ${stored.noun}`);
+  }
+  const { maxResponseBytes, previewItems } = budgetLimits();
+  const items = fittingPrefix(stored.items.slice(offset), limit ?? previewItems, maxResponseBytes);
+  const nextOffset = offset + items.length;
+  return {
+    noun: stored.noun,
+    total_items: stored.items.length,
+    items,
+    next_offset: nextOffset < stored.items.length ? nextOffset : null
+  };
+}
+
+// Number of items per value of `key`; missing values are counted as "none"
+export function countBy(items: Record<string, any>[], key: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    const value = item[key] === null || item[key] === undefined ? 'none' : String(item[key]);
+    counts[value] = (counts[value] ?? 0) + 1;
+  }
+  return counts;
+}
+
+// Sum of `valueKey` per value of `groupKey`, e.g. deal value per currency
+export function totalsBy(items: Record<string, any>[], valueKey: string, groupKey: string): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const item of items) {
+    if (typeof item[valueKey] !== 'number') {
+      continue;
+    }
+    const group = item[groupKey] === null || item[groupKey] === undefined ? 'none' : String(item[groupKey]);
+    totals[group] = (totals[group] ?? 0) + item[valueKey];
+  }
+  return totals;
+}
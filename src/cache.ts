@@ -0,0 +1,183 @@
+// Read-through cache for reference data that rarely changes: field definitions,
+// users, pipelines, stages, activity types and lead labels
+
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { PipedriveRequest } from "./api.js";
+import { currentCredentials } from "./credentials.js";
+import { logger } from "./logger.js";
+
+export const CACHE_ENTITIES = ['fields', 'users', 'pipelines', 'stages', 'activity_types', 'lead_labels'] as const;
+
+export type CacheEntity = typeof CACHE_ENTITIES[number];
+
+// Seconds an entry stays fresh unless PIPEDRIVE_CACHE_TTL_<ENTITY> says otherwise
+const DEFAULT_TTL_SECONDS: Record<CacheEntity, number> = {
+  fields: 3600,
+  users: 3600,
+  pipelines: 600,
+  stages: 600,
+  activity_types: 3600,
+  lead_labels: 600
+};
+
+// Writes to these paths make the listed entities stale
+const INVALIDATED_BY_WRITES: Array<[RegExp, CacheEntity[]]> = [
+  [/^\/v\d+\/(deal|person|organization|product|activity|note)Fields\b/, ['fields']],
+  [/^\/v\d+\/pipelines\b/, ['pipelines', 'stages']],
+  [/^\/v\d+\/stages\b/, ['stages']],
+  [/^\/v\d+\/users\b/, ['users']],
+  [/^\/v\d+\/activityTypes\b/, ['activity_types']],
+  [/^\/v\d+\/leadLabels\b/, ['lead_labels']]
+];
+
+// Changes are written to PIPEDRIVE_CACHE_FILE at most this often
+const PERSIST_DELAY_MS = 1000;
+
+interface CacheEntry {
+  value: unknown;
+  // Epoch milliseconds
+  expiresAt: number;
+}
+
+const entries = new Map<string, CacheEntry>();
+const loading = new Map<string, Promise<unknown>>();
+let restored: Promise<void> | null = null;
+let persistTimer: NodeJS.Timeout | null = null;
+
+function ttlMs(entity: CacheEntity): number {
+  const value = process.env[`PIPEDRIVE_CACHE_TTL_${entity.toUpperCase()}`];
+  const parsed = Number(value);
+  // Field definitions are looked up for every record, so a TTL of zero is not allowed
+  return (value && Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TTL_SECONDS[entity]) * 1000;
+}
+
+function cacheFile(): string | null {
+  return process.env.PIPEDRIVE_CACHE_FILE?.trim() || null;
+}
+
+// Entries are keyed `<credentials id>:<entity>:<key>`, so accounts never share data
+function entityOf(cacheKey: string): string {
+  return cacheKey.split(':').slice(-2)[0];
+}
+
+// Loads the entries a previous run left in PIPEDRIVE_CACHE_FILE, once
+function restore(): Promise<void> {
+  restored ??= (async () => {
+    const path = cacheFile();
+    if (!path) {
+      return;
+    }
+    try {
+      const stored: Record<string, CacheEntry> = JSON.parse(await readFile(path, 'utf8'));
+      const now = Date.now();
+      for (const [cacheKey, entry] of Object.entries(stored)) {
+        if (entry.expiresAt > now && !entries.has(cacheKey)) {
+          entries.set(cacheKey, entry);
+        }
+      }
+      logger.debug("Restored cache", { file: path, entries: entries.size });
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        logger.warn("Could not read the cache file", { file: path, error });
+      }
+    }
+  })();
+  return restored;
+}
+
+function schedulePersist(): void {
+  const path = cacheFile();
+  if (!path || persistTimer) {
+    return;
+  }
+  persistTimer = setTimeout(async () => {
+    persistTimer = null;
+    const now = Date.now();
+    const fresh = Object.fromEntries([...entries].filter(([, entry]) => entry.expiresAt > now));
+    try {
+      const temporary = `${path}.tmp`;
+      await writeFile(temporary, JSON.stringify(fresh), { mode: 0o600 });
+      await rename(temporary, path);
+    } catch (error) {
+      logger.warn("Could not write the cache file", { file: path, error });
+    }
+  }, PERSIST_DELAY_MS);
+  // A pending write must not keep the process alive
+  persistTimer.unref();
+}
+
+/**
+ * Returns the cached value of `entity`/`key` for the current credentials, or
+ * calls `load` and caches its result for the entity's TTL. Concurrent misses
+ * share one load; failed loads are not cached.
+ */
+export async function cached<T>(entity: CacheEntity, key: string, load: () => Promise<T>): Promise<T> {
+  await restore();
+  const cacheKey = `${currentCredentials().id}:${entity}:${key}`;
+  const entry = entries.get(cacheKey);
+  if (entry && entry.expiresAt > Date.now()) {
+    logger.debug("Cache hit", { entity, key });
+    return entry.value as T;
+  }
+
+  const pending = loading.get(cacheKey);
+  if (pending) {
+    logger.debug("Cache miss, joining a load in progress", { entity, key });
+    return pending as Promise<T>;
+  }
+
+  logger.debug("Cache miss", { entity, key, expired: entry !== undefined });
+  const ttl = ttlMs(entity);
+  const promise: Promise<T> = load()
+    .then(value => {
+      // An invalidation while loading means the value may already be stale
+      if (loading.get(cacheKey) === promise) {
+        entries.set(cacheKey, { value, expiresAt: Date.now() + ttl });
+        schedulePersist();
+      }
+      return value;
+    })
+    .finally(() => {
+      if (loading.get(cacheKey) === promise) {
+        loading.delete(cacheKey);
+      }
+    });
+  loading.set(cacheKey, promise);
+  return promise;
+}
+
+/**
+ * Drops the cached values of the given entities, or of all of them, for every
+ * account. Returns the number of entries removed.
+ */
+export function invalidateCache(entities: readonly CacheEntity[] = CACHE_ENTITIES): number {
+  const wanted = new Set<string>(entities);
+  let removed = 0;
+  for (const cacheKey of [...entries.keys()]) {
+    if (wanted.has(entityOf(cacheKey))) {
+      entries.delete(cacheKey);
+      removed++;
+    }
+  }
+  for (const cacheKey of [...loading.keys()]) {
+    if (wanted.has(entityOf(cacheKey))) {
+      loading.delete(cacheKey);
+    }
+  }
+  logger.info("Cache invalidated", { entities: [...wanted], entries: removed });
+  schedulePersist();
+  return removed;
+}
+
+// Drops what a write that reached Pipedrive may have made stale
+export function invalidateForRequest(request: PipedriveRequest): void {
+  if (request.method === 'GET') {
+    return;
+  }
+  const stale = INVALIDATED_BY_WRITES
+    .filter(([pattern]) => pattern.test(request.path))
+    .flatMap(([, entities]) => entities);
+  if (stale.length > 0) {
+    invalidateCache(stale);
+  }
+}
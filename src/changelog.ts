@@ -0,0 +1,255 @@
+// Change history of records: field changes with custom field names resolved,
+// filters over them, and a timeline that merges them with activities and notes
+
+import { z } from "zod";
+import { parseApiTime } from "./analytics.js";
+import { RequestStats } from "./api.js";
+import { budgetItems, countBy } from "./budget.js";
+import { customFields } from "./clients.js";
+import { FieldEntity } from "./customFields.js";
+import { convertHtml } from "./html.js";
+import { decodeCursor, describePage, inDateRange, ListCursor } from "./listQuery.js";
+import { logger } from "./logger.js";
+import { pageShape, pageSummary, summarizedSchema } from "./output.js";
+import { collectCursorPages, collectOffsetPages, CollectResult } from "./pagination.js";
+import { fetchStagesWithPipelineNames } from "./pipelines.js";
+import { fetchUserNames } from "./users.js";
+
+export interface ChangeFilter {
+  // Field key, e.g. `stage_id`, or the name of a custom field
+  field?: string;
+  // User who made the change
+  user_id?: number;
+  time_from?: string;
+  time_to?: string;
+}
+
+export interface TimelineEntry {
+  time: string | null;
+  kind: 'field_change' | 'stage_move' | 'activity' | 'note';
+  // ID of the activity or note
+  id: number | null;
+  user_id: number | null;
+  text: string;
+}
+
+// Values in timeline lines are cut to this many characters
+const MAX_VALUE_CHARS = 120;
+
+const changeTime = (change: any): string | null => change.time ?? change.log_time ?? null;
+const changeUser = (change: any): number | null => change.actor_user_id ?? change.user_id ?? null;
+
+// A changelog entry with the name of its field and option IDs of custom fields as labels
+async function presentChange(entity: FieldEntity, change: any) {
+  const key = String(change.field_key ?? '');
+  const [before, after] = await Promise.all([
+    customFields.resolveField(entity, key, change.old_value),
+    customFields.resolveField(entity, key, change.new_value)
+  ]);
+  return { ...change, field_name: after.name, old_value: before.value, new_value: after.value };
+}
+
+function changeMatches(change: any, filter: ChangeFilter): boolean {
+  const field = filter.field?.toLowerCase();
+  return (!field || String(change.field_key).toLowerCase() === field || String(change.field_name).toLowerCase() === field) &&
+    (filter.user_id === undefined || changeUser(change) === filter.user_id) &&
+    inDateRange(changeTime(change), filter.time_from, filter.time_to);
+}
+
+export interface ChangeQuery {
+  entity: FieldEntity;
+  // Changelog endpoint of the record, e.g. `/v1/deals/7/changelog`
+  path: string;
+  filter: ChangeFilter;
+  start?: { cursor: string | null; skip: number };
+  // Stop once this many matched; every match when left out
+  limit?: number;
+  stats?: RequestStats;
+}
+
+// Matching changes of one record, newest first as Pipedrive lists them
+export function collectChanges(query: ChangeQuery): Promise<CollectResult<any>> {
+  return collectCursorPages({
+    path: query.path,
+    start: query.start,
+    limit: query.limit,
+    stats: query.stats,
+    accept: async change => {
+      const presented = await presentChange(query.entity, change);
+      return changeMatches(presented, query.filter) ? presented : null;
+    }
+  });
+}
+
+function shorten(text: string, maxChars = MAX_VALUE_CHARS): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '(empty)';
+  }
+  if (Array.isArray(value)) {
+    return shorten(value.join(', '));
+  }
+  return shorten(typeof value === 'object' ? JSON.stringify(value) : String(value));
+}
+
+export interface TimelineQuery {
+  entity: FieldEntity;
+  id: number;
+  path: string;
+  // Query parameter that links activities and notes to the record
+  link: 'deal_id' | 'person_id' | 'org_id';
+  filter: ChangeFilter;
+  // Names of stages, to show stage moves by name
+  stageNames?: Map<number, string>;
+  stats: RequestStats;
+}
+
+/**
+ * Field changes, stage moves, activities and notes of one record as one line
+ * each, oldest first. Everything is loaded, since the sources can only be
+ * merged in order once complete. With a field filter only field changes are
+ * included; the user and time filters apply to every kind of entry.
+ */
+export async function buildTimeline(query: TimelineQuery): Promise<TimelineEntry[]> {
+  const { filter, stats } = query;
+  const withoutFieldFilter = !filter.field;
+  const [changes, activities, notes] = await Promise.all([
+    collectChanges({ entity: query.entity, path: query.path, filter, stats }),
+    withoutFieldFilter ? collectCursorPages({ path: '/v2/activities', query: { [query.link]: query.id }, stats }) : null,
+    withoutFieldFilter ? collectOffsetPages({ path: '/v1/notes', query: { [query.link]: query.id }, stats }) : null
+  ]);
+
+  const stageLabel = (value: unknown) => {
+    const name = query.stageNames?.get(Number(value));
+    return name ? `${name} (${value})` : formatValue(value);
+  };
+  const entries: TimelineEntry[] = changes.items.map(change => change.field_key === 'stage_id'
+    ? { time: changeTime(change), kind: 'stage_move', id: null, user_id: changeUser(change), text: `Moved from ${stageLabel(change.old_value)} to ${stageLabel(change.new_value)}` }
+    : { time: changeTime(change), kind: 'field_change', id: null, user_id: changeUser(change), text: `${change.field_name}: ${formatValue(change.old_value)} → ${formatValue(change.new_value)}` });
+
+  for (const activity of activities?.items ?? []) {
+    const subject = `${activity.type ?? 'activity'} "${activity.subject ?? ''}"`;
+    const entry: TimelineEntry = activity.done
+      ? { time: activity.marked_as_done_time ?? activity.update_time ?? null, kind: 'activity', id: activity.id, user_id: activity.owner_id ?? null, text: `Completed ${subject}` }
+      : { time: activity.add_time ?? null, kind: 'activity', id: activity.id, user_id: activity.owner_id ?? null, text: `Scheduled ${subject}${activity.due_date ? ` for ${activity.due_date}` : ''}` };
+    entries.push(entry);
+  }
+  for (const note of notes?.items ?? []) {
+    entries.push({ time: note.add_time ?? null, kind: 'note', id: note.id, user_id: note.user_id ?? null, text: `Note: ${shorten(convertHtml(note.content, 'text').replace(/\s+/g, ' ').trim())}` });
+  }
+
+  // Times are given as ISO 8601 whichever API version they came from; entries without one go last
+  return entries
+    .filter(entry => entry.kind === 'field_change' || entry.kind === 'stage_move' ||
+      ((filter.user_id === undefined || entry.user_id === filter.user_id) && inDateRange(entry.time, filter.time_from, filter.time_to)))
+    .map(entry => {
+      const time = parseApiTime(entry.time);
+      return { ...entry, time: time === null ? null : new Date(time).toISOString() };
+    })
+    .sort((a, b) => a.time === null || b.time === null ? Number(a.time === null) - Number(b.time === null) : a.time.localeCompare(b.time));
+}
+
+// Arguments of the history tools, besides the ID of the record
+export const historyInputShape = {
+  view: z.enum(['changes', 'timeline']).optional().describe("changes (default): field changes as Pipedrive records them, newest first; timeline: changes, stage moves, activities and notes as one line each, oldest first"),
+  field: z.string().optional().describe("Only changes of this field, by key (e.g. owner_id, stage_id, email) or custom field name; the timeline then leaves out activities and notes"),
+  user_id: z.number().optional().describe("Only changes made by this user ID"),
+  time_from: z.string().optional().describe("Only entries on or after this time (YYYY-MM-DD or ISO 8601)"),
+  time_to: z.string().optional().describe("Only entries on or before this time (YYYY-MM-DD or ISO 8601)"),
+  limit: z.number().int().min(1).max(500).optional().describe("Return at most this many entries and a next_cursor for the rest (default 100)"),
+  cursor: z.string().optional().describe("next_cursor from a previous call with the same arguments, to fetch the next page"),
+  all_pages: z.boolean().optional().describe("Follow the pages until the history ends or max_items entries were collected, instead of returning one page"),
+  max_items: z.number().int().min(1).max(5000).optional().describe("Most entries to collect with all_pages (default 1000)")
+};
+
+type HistoryArgs = z.infer<z.ZodObject<typeof historyInputShape>>;
+
+// Result of the history tools, besides the ID of the record
+export const historyOutputShape = {
+  ...z.object(pageShape).partial().shape,
+  retries: pageShape.retries,
+  view: z.enum(['changes', 'timeline']),
+  history: z.array(z.object({
+    field_key: z.string(),
+    field_name: z.string().describe("Custom field name, or the field key of standard fields"),
+    old_value: z.unknown(),
+    new_value: z.unknown(),
+    actor_user_id: z.number().nullish(),
+    user_name: z.string().nullable().describe("Name of the user who made the change"),
+    time: z.string().nullish()
+  }).passthrough()).optional().describe("Field changes, with the changes view"),
+  timeline: z.array(z.object({
+    time: z.string().nullable(),
+    kind: z.enum(['field_change', 'stage_move', 'activity', 'note']),
+    id: z.number().nullable().describe("Activity or note ID"),
+    user_id: z.number().nullable(),
+    user_name: z.string().nullable(),
+    text: z.string()
+  })).optional().describe("With the timeline view"),
+  summarized: summarizedSchema.optional()
+};
+
+export interface HistoryRecord {
+  entity: FieldEntity;
+  id: number;
+  // Changelog endpoint of the record
+  path: string;
+  link: TimelineQuery['link'];
+}
+
+/**
+ * One page of the history of a record as a history tool returns it, with a
+ * summary line. The changes view pages through the API; the timeline is
+ * merged here and paged by offset, so a cursor only fits the view it came from.
+ */
+export async function readHistory(record: HistoryRecord, args: HistoryArgs, stats: RequestStats) {
+  const timeline = args.view === 'timeline';
+  const count = args.all_pages ? args.max_items ?? 1000 : args.limit ?? 100;
+  const filter = { field: args.field, user_id: args.user_id, time_from: args.time_from, time_to: args.time_to };
+  const position = args.cursor ? decodeCursor(args.cursor) : (timeline ? { mode: 'offset' as const, offset: 0 } : { mode: 'api' as const, cursor: null, skip: 0 });
+  if ((position.mode === 'offset') !== timeline) {
+    throw new Error("The cursor was created with a different view; repeat the original arguments when paging");
+  }
+
+  let entries: any[];
+  let next: ListCursor | null;
+  const userNamesPromise = fetchUserNames(stats);
+  if (position.mode === 'offset') {
+    const stageNames = record.entity === 'deal'
+      ? new Map((await fetchStagesWithPipelineNames(stats)).map(stage => [stage.id, stage.name]))
+      : undefined;
+    const merged = await buildTimeline({ ...record, filter, stageNames, stats });
+    entries = merged.slice(position.offset, position.offset + count);
+    next = position.offset + count < merged.length ? { mode: 'offset', offset: position.offset + count } : null;
+  } else {
+    const result = await collectChanges({ entity: record.entity, path: record.path, filter, start: position, limit: count, stats });
+    entries = result.items;
+    next = result.next;
+  }
+  const userNames = await userNamesPromise;
+  entries = entries.map(entry => {
+    const userId = timeline ? entry.user_id : changeUser(entry);
+    return { ...entry, user_name: userNames.get(userId) ?? null };
+  });
+
+  logger.debug("Fetched record history", { entity: record.entity, id: record.id, view: args.view ?? 'changes', count: entries.length, retries: stats.retries });
+
+  const noun = timeline ? 'timeline entries' : 'changes';
+  const budgeted = budgetItems(entries, noun, () => timeline
+    ? { by_kind: countBy(entries, 'kind'), by_user_name: countBy(entries, 'user_name') }
+    : { by_field_name: countBy(entries, 'field_name'), by_user_name: countBy(entries, 'user_name') });
+  return {
+    summary: pageSummary(entries.length, noun, next !== null, budgeted.summarized),
+    data: {
+      ...describePage(entries.length, next, noun, args.cursor !== undefined),
+      returned_count: budgeted.items.length,
+      retries: stats.retries,
+      view: timeline ? 'timeline' : 'changes',
+      [timeline ? 'timeline' : 'history']: budgeted.items,
+      ...(budgeted.summarized ? { summarized: budgeted.summarized } : {})
+    }
+  };
+}
@@ -0,0 +1,72 @@
+// Pipedrive SDK clients per set of credentials, and the shared custom field resolver
+
+import * as pipedrive from "pipedrive/v1";
+import { cached } from "./cache.js";
+import { currentCredentials, PipedriveCredentials } from "./credentials.js";
+import { createCustomFieldResolver, FieldDefinition, FieldEntity } from "./customFields.js";
+
+function createClients(credentials: PipedriveCredentials) {
+  const configuration = new pipedrive.Configuration({
+    ...(credentials.kind === 'oauth'
+      ? { accessToken: () => credentials.token() }
+      : { apiKey: () => credentials.token() }),
+    basePath: `${credentials.apiDomain()}/api/v1`
+  });
+
+  return {
+    dealsApi: new pipedrive.DealsApi(configuration),
+    personsApi: new pipedrive.PersonsApi(configuration),
+    organizationsApi: new pipedrive.OrganizationsApi(configuration),
+    pipelinesApi: new pipedrive.PipelinesApi(configuration),
+    itemSearchApi: new pipedrive.ItemSearchApi(configuration),
+    leadsApi: new pipedrive.LeadsApi(configuration),
+    dealFieldsApi: new pipedrive.DealFieldsApi(configuration),
+    personFieldsApi: new pipedrive.PersonFieldsApi(configuration),
+    organizationFieldsApi: new pipedrive.OrganizationFieldsApi(configuration)
+  };
+}
+
+export type PipedriveClients = ReturnType<typeof createClients>;
+
+const clientsByCredentials = new WeakMap<PipedriveCredentials, PipedriveClients>();
+
+// SDK clients acting with the credentials of the current scope
+export function pipedriveClients(): PipedriveClients {
+  const credentials = currentCredentials();
+  let clients = clientsByCredentials.get(credentials);
+  if (!clients) {
+    clients = createClients(credentials);
+    clientsByCredentials.set(credentials, clients);
+  }
+  return clients;
+}
+
+// Load all field definitions for an entity, following pagination
+async function loadFieldDefinitions(entity: FieldEntity): Promise<FieldDefinition[]> {
+  const { dealFieldsApi, personFieldsApi, organizationFieldsApi } = pipedriveClients();
+  const fetchPage = {
+    deal: (params: { start: number; limit: number }) => dealFieldsApi.getDealFields(params),
+    person: (params: { start: number; limit: number }) => personFieldsApi.getPersonFields(params),
+    organization: (params: { start: number; limit: number }) => organizationFieldsApi.getOrganizationFields(params)
+  }[entity];
+
+  const definitions: FieldDefinition[] = [];
+  let start = 0;
+  const limit = 500;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response: any = await fetchPage({ start, limit });
+    if (Array.isArray(response.data)) {
+      definitions.push(...response.data);
+    }
+    hasMore = response.additional_data?.pagination?.more_items_in_collection || false;
+    start += limit;
+  }
+
+  return definitions;
+}
+
+// Custom field definitions are cached per credentials and used to make responses human-readable
+export const customFields = createCustomFieldResolver(entity => cached('fields', entity, () => loadFieldDefinitions(entity)));
+
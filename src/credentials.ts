@@ -0,0 +1,77 @@
+// Pipedrive credentials and the scope that decides which ones an API call uses
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { PipedriveError } from "./errors.js";
+import { registerSecret, releaseSecret } from "./logger.js";
+
+export const DEFAULT_API_DOMAIN = 'https://api.pipedrive.com';
+
+export interface PipedriveCredentials {
+  // Identifies the credentials in caches and logs without revealing the secret
+  id: string;
+  kind: 'api_token' | 'oauth';
+  // Origin the REST API is served from, e.g. https://api.pipedrive.com
+  apiDomain(): string;
+  // API token or OAuth access token; expired access tokens are refreshed first
+  token(): Promise<string>;
+  // Gets a new access token after the API rejected the current one; false when the credentials cannot be refreshed
+  refresh(): Promise<boolean>;
+  // Forgets the secret for log redaction once credentials made for one session are no longer used
+  release?(): void;
+}
+
+// Short, stable hash of a secret for use in identifiers
+export function fingerprint(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex').slice(0, 12);
+}
+
+// Accepts "acme", "acme.pipedrive.com" or "https://acme.pipedrive.com"
+export function companyApiDomain(companyDomain: string): string {
+  const host = companyDomain.trim().replace(/^https?:\/\//i, '').replace(/\/+$/, '');
+  return `https://${host.includes('.') ? host : `${host}.pipedrive.com`}`;
+}
+
+export function apiTokenCredentials(token: string, companyDomain?: string | null): PipedriveCredentials {
+  const apiDomain = companyDomain ? companyApiDomain(companyDomain) : DEFAULT_API_DOMAIN;
+  registerSecret(token);
+  return {
+    id: `api_token:${fingerprint(token)}`,
+    kind: 'api_token',
+    apiDomain: () => apiDomain,
+    token: async () => token,
+    refresh: async () => false,
+    release: () => releaseSecret(token)
+  };
+}
+
+export async function authHeaders(credentials: PipedriveCredentials): Promise<Record<string, string>> {
+  const token = await credentials.token();
+  return credentials.kind === 'oauth' ? { 'Authorization': `Bearer ${token}` } : { 'x-api-token': token };
+}
+
+const scope = new AsyncLocalStorage<PipedriveCredentials>();
+let defaultCredentials: PipedriveCredentials | null = null;
+
+// Credentials used outside any session scope, e.g. by the stdio transport
+export function setDefaultCredentials(credentials: PipedriveCredentials | null): void {
+  defaultCredentials = credentials;
+}
+
+// Runs `fn` so that every Pipedrive call it makes, including later async work, uses `credentials`
+export function withCredentials<T>(credentials: PipedriveCredentials, fn: () => T): T {
+  return scope.run(credentials, fn);
+}
+
+// Whether the caller runs with credentials of its own, e.g. those its HTTP session was opened with
+export function hasScopedCredentials(): boolean {
+  return scope.getStore() !== undefined;
+}
+
+export function currentCredentials(): PipedriveCredentials {
+  const credentials = scope.getStore() ?? defaultCredentials;
+  if (!credentials) {
+    throw new PipedriveError("No Pipedrive credentials for this session. Send an X-Pipedrive-Api-Token or X-Pipedrive-Credential header, or configure PIPEDRIVE_API_TOKEN on the server.", { category: 'unauthorized' });
+  }
+  return credentials;
+}
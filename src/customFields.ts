@@ -0,0 +1,139 @@
+// Resolution of Pipedrive custom field keys and option IDs to human-readable names
+
+import { z } from "zod";
+
+export type FieldEntity = 'deal' | 'person' | 'organization';
+
+export interface FieldOption {
+  id: number | string;
+  label: string;
+}
+
+export interface FieldDefinition {
+  key: string;
+  name: string;
+  field_type: string;
+  options?: FieldOption[] | null;
+}
+
+export type FieldLoader = (entity: FieldEntity) => Promise<FieldDefinition[]>;
+
+export const rawCustomFieldsParam = z.boolean().optional().describe("Return custom fields under their raw API hash keys and option IDs instead of resolved names and labels");
+
+// Custom field keys are 40-character hex hashes, optionally followed by a
+// component suffix such as `_currency` or `_formatted_address`
+const CUSTOM_FIELD_KEY = /^([0-9a-f]{40})(_[a-z_]+)?$/;
+
+export function isCustomFieldKey(key: string): boolean {
+  return CUSTOM_FIELD_KEY.test(key);
+}
+
+function resolveOptionValue(field: FieldDefinition, value: unknown): unknown {
+  if (!field.options || field.options.length === 0 || value === null || value === undefined || value === '') {
+    return value;
+  }
+
+  const labelFor = (id: unknown) => {
+    const option = field.options!.find(o => String(o.id) === String(id).trim());
+    return option ? option.label : id;
+  };
+
+  if (field.field_type === 'enum') {
+    return labelFor(value);
+  }
+
+  if (field.field_type === 'set') {
+    // v1 returns sets as comma-separated ID strings, v2 as arrays of IDs
+    const ids = Array.isArray(value) ? value : String(value).split(',');
+    return ids.map(labelFor);
+  }
+
+  return value;
+}
+
+function resolveFieldsOf(source: Record<string, unknown>, fields: Map<string, FieldDefinition>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(source)) {
+    const match = CUSTOM_FIELD_KEY.exec(key);
+    const field = match ? fields.get(match[1]) : undefined;
+
+    if (!match || !field) {
+      result[key] = value;
+      continue;
+    }
+
+    const name = match[2] ? `${field.name}${match[2]}` : field.name;
+    // Never let a custom field overwrite a standard field with the same name
+    const targetKey = name in source || name in result ? key : name;
+    result[targetKey] = match[2] ? value : resolveOptionValue(field, value);
+  }
+
+  return result;
+}
+
+/**
+ * Creates a resolver that rewrites custom field hash keys to field names and
+ * enum/set option IDs to their labels. Field definitions come from
+ * `loadFields`, which is expected to cache them per account; each list it
+ * returns is indexed once.
+ */
+export function createCustomFieldResolver(loadFields: FieldLoader) {
+  const indexes = new WeakMap<FieldDefinition[], Map<string, FieldDefinition>>();
+
+  async function getFields(entity: FieldEntity): Promise<Map<string, FieldDefinition>> {
+    const definitions = await loadFields(entity);
+    let byKey = indexes.get(definitions);
+    if (!byKey) {
+      byKey = new Map();
+      for (const definition of definitions) {
+        if (isCustomFieldKey(definition.key)) {
+          byKey.set(definition.key, definition);
+        }
+      }
+      indexes.set(definitions, byKey);
+    }
+    return byKey;
+  }
+
+  async function resolveRecord<T>(entity: FieldEntity, record: T): Promise<T> {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      return record;
+    }
+
+    const fields = await getFields(entity);
+    const resolved = resolveFieldsOf(record as Record<string, unknown>, fields);
+
+    // API v2 nests custom fields under `custom_fields`
+    const nested = resolved.custom_fields;
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      resolved.custom_fields = resolveFieldsOf(nested as Record<string, unknown>, fields);
+    }
+
+    return resolved as T;
+  }
+
+  // Name of the field under `key` and `value` with option IDs as labels; standard fields keep their key
+  async function resolveField(entity: FieldEntity, key: string, value: unknown): Promise<{ name: string; value: unknown }> {
+    const match = CUSTOM_FIELD_KEY.exec(key);
+    const field = match ? (await getFields(entity)).get(match[1]) : undefined;
+    if (!match || !field) {
+      return { name: key, value };
+    }
+    return match[2] ? { name: `${field.name}${match[2]}`, value } : { name: field.name, value: resolveOptionValue(field, value) };
+  }
+
+  async function resolveRecords<T>(entity: FieldEntity, records: T[]): Promise<T[]> {
+    await getFields(entity);
+    return Promise.all(records.map(record => resolveRecord(entity, record)));
+  }
+
+  return {
+    getFields,
+    resolveField,
+    resolveRecord,
+    resolveRecords
+  };
+}
+
+export type CustomFieldResolver = ReturnType<typeof createCustomFieldResolver>;
@@ -0,0 +1,172 @@
+// Typed errors for Pipedrive API failures, and the structured results tools return for them
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export type ErrorCategory = 'not_found' | 'unauthorized' | 'forbidden' | 'rate_limited' | 'validation' | 'upstream';
+
+export interface PipedriveErrorDetails {
+  category: ErrorCategory;
+  // HTTP status of the failed response, when there was one
+  status?: number | null;
+  // Pipedrive's own error code, e.g. "ERR_SCHEMA_VALIDATION_FAILED"
+  code?: string | null;
+  // How long to wait before retrying, when Pipedrive said so
+  retryAfterSeconds?: number | null;
+  // Request fields Pipedrive rejected
+  fields?: string[];
+}
+
+// What the caller can do about each category
+const HINTS: Record<ErrorCategory, string> = {
+  not_found: "Check the ID or name; the record may have been deleted or belong to another account.",
+  unauthorized: "The Pipedrive credentials were rejected. Check the API token or authorize again.",
+  forbidden: "The Pipedrive user lacks permission for this record or action.",
+  rate_limited: "Pipedrive's rate limit was reached. Retry after the given delay.",
+  validation: "Fix the arguments (see fields, if any) and try again.",
+  upstream: "Pipedrive could not be reached or failed. Retrying later may help."
+};
+
+/**
+ * A failure with a category the model can act on. Errors from the Pipedrive
+ * API carry the HTTP status, Pipedrive's error code, a retry-after hint and
+ * the offending fields where available.
+ */
+export class PipedriveError extends Error {
+  readonly category: ErrorCategory;
+  readonly status: number | null;
+  readonly code: string | null;
+  readonly retryAfterSeconds: number | null;
+  readonly fields: string[];
+
+  constructor(message: string, details: PipedriveErrorDetails) {
+    super(message);
+    this.name = 'PipedriveError';
+    this.category = details.category;
+    this.status = details.status ?? null;
+    this.code = details.code ?? null;
+    this.retryAfterSeconds = details.retryAfterSeconds ?? null;
+    this.fields = details.fields ?? [];
+  }
+
+  toJSON() {
+    return {
+      category: this.category,
+      message: this.message,
+      status: this.status,
+      code: this.code,
+      retry_after_seconds: this.retryAfterSeconds,
+      fields: this.fields,
+      hint: HINTS[this.category]
+    };
+  }
+}
+
+export function categoryForStatus(status: number): ErrorCategory {
+  if (status === 401) {
+    return 'unauthorized';
+  }
+  if (status === 402 || status === 403) {
+    return 'forbidden';
+  }
+  if (status === 404 || status === 410) {
+    return 'not_found';
+  }
+  if (status === 429) {
+    return 'rate_limited';
+  }
+  if (status >= 400 && status < 500) {
+    return 'validation';
+  }
+  return 'upstream';
+}
+
+// Field names from the error payload shapes the Pipedrive APIs use
+function offendingFields(payload: any): string[] {
+  const candidates = [payload?.errors, payload?.additional_data?.errors, payload?.data?.errors, payload?.additional_data?.issues]
+    .filter(Array.isArray)
+    .flat();
+  const fields = candidates
+    .map((issue: any) => issue?.field ?? issue?.key ?? (Array.isArray(issue?.path) ? issue.path.join('.') : issue?.path))
+    .filter((field: unknown): field is string => typeof field === 'string' && field !== '');
+  return [...new Set(fields)];
+}
+
+/**
+ * Builds the error for a failed API response from its status and parsed body.
+ */
+export function errorFromResponse(status: number, payload: any, retryAfterSeconds: number | null, context: string): PipedriveError {
+  const detail = payload?.error || payload?.message || `HTTP ${status}`;
+  const code = payload?.code ?? payload?.error_code ?? null;
+  return new PipedriveError(`${context} failed with status ${status}: ${detail}`, {
+    category: categoryForStatus(status),
+    status,
+    code: code === null ? null : String(code),
+    retryAfterSeconds: status === 429 ? retryAfterSeconds : null,
+    fields: offendingFields(payload)
+  });
+}
+
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_SOCKET']);
+
+/**
+ * Turns anything a handler caught into a PipedriveError:
+ * - PipedriveErrors are returned as they are
+ * - error bodies the Pipedrive SDK rejects with are categorized by their
+ *   `errorCode` or, lacking one, their message
+ * - HTTP client errors with a response are categorized by its status
+ * - network failures are upstream errors
+ * - any other Error was thrown by this server while checking arguments, so it
+ *   is a validation error, or not_found when it says something was not found
+ */
+export function toPipedriveError(error: unknown): PipedriveError {
+  if (error instanceof PipedriveError) {
+    return error;
+  }
+
+  const anyError = error as any;
+  if (anyError && typeof anyError === 'object' && anyError.success === false) {
+    const message = String(anyError.error || anyError.message || "Pipedrive API request failed");
+    const status = typeof anyError.errorCode === 'number' ? anyError.errorCode : null;
+    return new PipedriveError(message, {
+      category: status !== null ? categoryForStatus(status) : /not found/i.test(message) ? 'not_found' : /unauthori[sz]ed|api token/i.test(message) ? 'unauthorized' : 'upstream',
+      status,
+      code: anyError.code ?? null,
+      fields: offendingFields(anyError)
+    });
+  }
+
+  // HTTP client errors that still carry the response
+  if (typeof anyError?.response?.status === 'number') {
+    const retryAfter = Number(anyError.response.headers?.['retry-after']);
+    return errorFromResponse(anyError.response.status, anyError.response.data, Number.isFinite(retryAfter) ? retryAfter : null, "Pipedrive API request");
+  }
+
+  if (error instanceof Error) {
+    const cause = (error as any).cause;
+    if (NETWORK_ERROR_CODES.has((error as any).code) || NETWORK_ERROR_CODES.has(cause?.code) || error.message === 'fetch failed') {
+      return new PipedriveError(`Could not reach Pipedrive: ${cause?.message || error.message}`, { category: 'upstream' });
+    }
+    if (error.constructor !== Error) {
+      return new PipedriveError(error.message, { category: 'upstream' });
+    }
+    return new PipedriveError(error.message, { category: /not found/i.test(error.message) ? 'not_found' : 'validation' });
+  }
+
+  return new PipedriveError(String(error), { category: 'upstream' });
+}
+
+/**
+ * The result a tool returns when it fails: a structured error object with the
+ * category, status, Pipedrive error code, retry-after hint and offending fields.
+ * `action` describes what was attempted, e.g. "fetching deal 42".
+ */
+export function errorResult(action: string, error: unknown): CallToolResult {
+  const normalized = toPipedriveError(error);
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({ error: { action, ...normalized.toJSON() } })
+    }],
+    isError: true
+  };
+}
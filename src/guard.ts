@@ -0,0 +1,205 @@
+// Central safeguard for tools that change data in Pipedrive: read-only mode,
+// allowlisting and dry runs are handled here so individual handlers don't have to
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape } from "zod";
+import { describeRequest, pipedriveRequest, PipedriveRequest } from "./api.js";
+import { errorResult, toPipedriveError } from "./errors.js";
+import { logger } from "./logger.js";
+import { structuredResult } from "./output.js";
+
+export interface GuardOptions {
+  // When set, mutating tools are not registered at all
+  readOnly: boolean;
+  // Names of mutating tools that may be registered; null allows all of them
+  allowedTools: Set<string> | null;
+}
+
+export interface MutationPlan {
+  request: PipedriveRequest;
+  // Current state of the record being changed, only fetched for dry runs
+  before?: () => Promise<Record<string, unknown> | null>;
+  // Turns the API response into the structured content returned to the client, matching `output`
+  present: (response: any) => Record<string, unknown> | Promise<Record<string, unknown>>;
+}
+
+export interface MutatingToolDefinition<Args extends ZodRawShape> {
+  // Describes the operation for error messages, e.g. "updating deal 42"
+  action: (args: z.objectOutputType<Args, z.ZodTypeAny>) => string;
+  // Shape of what `present` returns
+  output: ZodRawShape;
+  // Validates the arguments and builds the request without sending it
+  plan: (args: z.objectOutputType<Args, z.ZodTypeAny>) => Promise<MutationPlan>;
+}
+
+interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+const fieldChange = z.object({
+  field: z.string(),
+  before: z.unknown(),
+  after: z.unknown()
+});
+
+// What a dry run returns instead of the tool's own output
+const dryRunShape = {
+  tool: z.string().optional(),
+  request: z.object({
+    method: z.string(),
+    url: z.string(),
+    body: z.record(z.unknown()).optional()
+  }).optional().describe("The request that would be sent"),
+  changes: z.array(fieldChange).optional(),
+  before: z.record(z.unknown()).nullish(),
+  after: z.record(z.unknown()).nullish()
+};
+
+// What a write returns instead of the tool's own output when the write succeeded but presenting it failed
+const unpresentedShape = {
+  data: z.unknown().optional().describe("The API response of the write, when its result could not be presented"),
+  warning: z.string().optional().describe("Why the result is only the raw API response; the write itself succeeded")
+};
+
+function isTruthy(value: string | undefined): boolean {
+  return ['1', 'true', 'yes', 'on'].includes((value || '').trim().toLowerCase());
+}
+
+/**
+ * Reads the guard configuration from the environment:
+ * - PIPEDRIVE_READ_ONLY=true disables every mutating tool
+ * - PIPEDRIVE_WRITE_TOOLS=create-deal,update-deal limits mutating tools to the listed names
+ */
+export function loadGuardOptions(env: NodeJS.ProcessEnv): GuardOptions {
+  const allowlist = (env.PIPEDRIVE_WRITE_TOOLS || '').trim();
+  return {
+    readOnly: isTruthy(env.PIPEDRIVE_READ_ONLY),
+    allowedTools: allowlist && allowlist !== '*'
+      ? new Set(allowlist.split(',').map(name => name.trim()).filter(Boolean))
+      : null
+  };
+}
+
+function computeChanges(before: Record<string, unknown> | null, request: PipedriveRequest): { after: Record<string, unknown> | null; changes: FieldChange[] } {
+  if (request.method === 'DELETE') {
+    const changes = Object.entries(before || {}).map(([field, value]) => ({ field, before: value, after: null }));
+    return { after: null, changes };
+  }
+
+  const body = request.body || {};
+  const after = { ...(before || {}), ...body };
+  const changes = Object.entries(body)
+    .filter(([field, value]) => JSON.stringify(before?.[field]) !== JSON.stringify(value))
+    .map(([field, value]) => ({ field, before: before?.[field] ?? null, after: value }));
+
+  return { after, changes };
+}
+
+export type MutationListener = (request: PipedriveRequest, toolName: string) => void;
+
+export function createToolGuard(server: McpServer, options: GuardOptions) {
+  const registered: string[] = [];
+  const skipped: string[] = [];
+  const listeners: MutationListener[] = [];
+
+  function isAllowed(name: string): boolean {
+    if (options.readOnly) {
+      return false;
+    }
+    return options.allowedTools === null || options.allowedTools.has(name);
+  }
+
+  /**
+   * Registers a tool that changes data. The tool gets a `dry_run` argument that
+   * returns the exact API request and a before/after diff without sending it.
+   * The output schema is the definition's `output`, whose fields are absent in
+   * dry runs, plus the dry run fields. A write Pipedrive accepted is reported
+   * as done even if `present` fails, since a retry could apply it twice.
+   */
+  function mutatingTool<Args extends ZodRawShape>(
+    name: string,
+    description: string,
+    paramsSchema: Args,
+    definition: MutatingToolDefinition<Args>
+  ): void {
+    if (!isAllowed(name)) {
+      skipped.push(name);
+      return;
+    }
+
+    const schema = {
+      ...paramsSchema,
+      dry_run: z.boolean().optional().describe("Preview the API request and the resulting changes without sending anything to Pipedrive")
+    };
+    const outputSchema = {
+      ...z.object(definition.output).partial().shape,
+      ...dryRunShape,
+      ...unpresentedShape,
+      dry_run: z.boolean().describe("true when this is only a preview and nothing was sent")
+    };
+
+    const handler = async (input: z.objectOutputType<Args, z.ZodTypeAny> & { dry_run?: boolean }): Promise<CallToolResult> => {
+      const { dry_run, ...rest } = input;
+      const args = rest as z.objectOutputType<Args, z.ZodTypeAny>;
+
+      try {
+        const plan = await definition.plan(args);
+
+        if (dry_run) {
+          const before = plan.before ? await plan.before() : null;
+          const { after, changes } = computeChanges(before, plan.request);
+          return structuredResult(`Dry run of ${definition.action(args)}: ${changes.length} field(s) would change, nothing was sent`, {
+            dry_run: true,
+            tool: name,
+            request: describeRequest(plan.request),
+            changes,
+            before,
+            after
+          });
+        }
+
+        const response = await pipedriveRequest(plan.request);
+        for (const listener of listeners) {
+          try {
+            listener(plan.request, name);
+          } catch (error) {
+            logger.error(`Error in mutation listener for ${name}`, { error });
+          }
+        }
+
+        let presented: Record<string, unknown>;
+        try {
+          presented = await plan.present(response);
+        } catch (error) {
+          logger.error(`Error presenting the result of ${definition.action(args)}`, { error });
+          const warning = `The write succeeded, but reading its result failed: ${toPipedriveError(error).message}. Do not repeat the write; data is the raw API response.`;
+          return structuredResult(`Finished ${definition.action(args)}; ${warning}`, { dry_run: false, data: response.data, warning });
+        }
+        return structuredResult(`Finished ${definition.action(args)}`, { dry_run: false, ...presented });
+      } catch (error) {
+        logger.error(`Error ${definition.action(args)}`, { error });
+        return errorResult(definition.action(args), error);
+      }
+    };
+
+    server.registerTool(name, { description, inputSchema: schema, outputSchema }, handler as any);
+    registered.push(name);
+  }
+
+  // Registers a callback that runs after every write that reached Pipedrive
+  function onMutation(listener: MutationListener): void {
+    listeners.push(listener);
+  }
+
+  return {
+    mutatingTool,
+    onMutation,
+    registeredMutatingTools: () => [...registered],
+    skippedMutatingTools: () => [...skipped]
+  };
+}
+
+export type ToolGuard = ReturnType<typeof createToolGuard>;
@@ -0,0 +1,68 @@
+// Conversion of the HTML Pipedrive stores in notes into markdown or plain text
+
+export type TextFormat = 'markdown' | 'text' | 'html';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…'
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Code points past the Unicode range would make fromCodePoint throw
+      return Number.isNaN(value) || value > 0x10ffff ? entity : String.fromCodePoint(value);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = new RegExp(`${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+  return match ? decodeEntities(match[2] ?? match[3] ?? match[4] ?? '') : null;
+}
+
+/**
+ * Converts an HTML fragment to markdown or plain text. Only the markup that
+ * Pipedrive's editors produce is handled: paragraphs, line breaks, lists,
+ * emphasis, links and headings. Anything else is stripped.
+ */
+export function convertHtml(html: string | null | undefined, format: TextFormat = 'markdown'): string {
+  if (!html) {
+    return '';
+  }
+  if (format === 'html') {
+    return html;
+  }
+
+  const markdown = format === 'markdown';
+  let text = html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|blockquote|h[1-6]|ul|ol|table|tr)>/gi, '\n\n')
+    .replace(/<(h[1-6])[^>]*>/gi, (_, tag: string) => markdown ? `\n\n${'#'.repeat(Number(tag[1]))} ` : '\n\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/li>/gi, '')
+    .replace(/<\/?(strong|b)(\s[^>]*)?>/gi, markdown ? '**' : '')
+    .replace(/<\/?(em|i)(\s[^>]*)?>/gi, markdown ? '_' : '')
+    .replace(/<a\s[^>]*>([\s\S]*?)<\/a>/gi, (tag, label: string) => {
+      const href = attribute(tag, 'href');
+      return markdown && href ? `[${label}](${href})` : label;
+    })
+    .replace(/<\/t[dh]>/gi, ' ')
+    .replace(/<[^>]+>/g, '');
+
+  text = decodeEntities(text)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n');
+
+  return text.trim();
+}
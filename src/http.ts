@@ -0,0 +1,284 @@
+// HTTP transports: Streamable HTTP on /mcp and the older SSE transport on /sse
+
+import { randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { apiTokenCredentials, PipedriveCredentials, withCredentials } from "./credentials.js";
+import { PipedriveError } from "./errors.js";
+import { logger } from "./logger.js";
+import { OAuthClient } from "./oauth.js";
+import { createServer, ServerInstance } from "./server.js";
+import { WebhookReceiver } from "./webhooks.js";
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  // Clients must send `Authorization: Bearer <authToken>`
+  authToken: string;
+  // Enables /oauth/authorize and /oauth/callback, and X-Pipedrive-Credential session headers
+  oauth: OAuthClient | null;
+  // Accepts Pipedrive webhook posts on the path of PIPEDRIVE_WEBHOOK_URL
+  webhooks: WebhookReceiver | null;
+}
+
+// How long an OAuth authorization started at /oauth/authorize may take
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+interface Session {
+  instance: ServerInstance;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  // Credentials the session was opened with; null for the server's default credentials
+  credentials: PipedriveCredentials | null;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// JSON-RPC shaped error, which is what MCP clients expect from these endpoints
+function sendRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null }, headers);
+}
+
+function sendText(res: ServerResponse, status: number, text: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(text);
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) {
+    return false;
+  }
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Makes every message of a connected transport run with the given Pipedrive credentials
+function bindCredentials(transport: Transport, credentials: PipedriveCredentials | null): void {
+  const onmessage = transport.onmessage;
+  if (credentials && onmessage) {
+    transport.onmessage = (message, extra) => withCredentials(credentials, () => onmessage(message, extra));
+  }
+}
+
+/**
+ * Serves the MCP server over HTTP. Every client session gets its own server
+ * instance, so subscriptions and notifications stay per client. Sessions act
+ * with the Pipedrive credentials sent when they are opened, or the server's
+ * default credentials. All endpoints except /health, the OAuth redirect
+ * endpoints and the webhook receiver require the bearer token.
+ */
+export async function startHttpServer(options: HttpOptions): Promise<{ httpServer: Server; close: () => Promise<void> }> {
+  const sessions = new Map<string, Session>();
+  // Pending OAuth authorizations by state parameter, with their expiry time
+  const oauthStates = new Map<string, number>();
+
+  // Credentials a new session asked for; null means the server's default credentials
+  function sessionCredentials(req: IncomingMessage): PipedriveCredentials | null {
+    const credentialKey = req.headers['x-pipedrive-credential'];
+    if (typeof credentialKey === 'string') {
+      const credentials = options.oauth?.credentials(credentialKey);
+      if (!credentials) {
+        throw new PipedriveError("Unknown X-Pipedrive-Credential; authorize again at /oauth/authorize", { category: 'unauthorized' });
+      }
+      return credentials;
+    }
+    const apiToken = req.headers['x-pipedrive-api-token'];
+    return typeof apiToken === 'string' && apiToken.trim() ? apiTokenCredentials(apiToken.trim()) : null;
+  }
+
+  async function closeSession(sessionId: string): Promise<void> {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    session.credentials?.release?.();
+    await session.instance.close();
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendRpcError(res, 404, "Session not found");
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendRpcError(res, 400, "Mcp-Session-Id header is required");
+      return;
+    }
+
+    let credentials: PipedriveCredentials | null;
+    try {
+      credentials = sessionCredentials(req);
+    } catch (error) {
+      sendRpcError(res, 401, (error as Error).message);
+      return;
+    }
+
+    // A POST without a session must be an initialize request; the transport rejects anything else
+    const instance = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { instance, transport, credentials });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId);
+      }
+    };
+
+    await instance.server.connect(transport);
+    bindCredentials(transport, credentials);
+    await transport.handleRequest(req, res);
+
+    if (!transport.sessionId) {
+      credentials?.release?.();
+      await instance.close();
+    }
+  }
+
+  async function handleSseStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let credentials: PipedriveCredentials | null;
+    try {
+      credentials = sessionCredentials(req);
+    } catch (error) {
+      sendRpcError(res, 401, (error as Error).message);
+      return;
+    }
+
+    const instance = createServer();
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, { instance, transport, credentials });
+    res.on('close', () => void closeSession(transport.sessionId));
+    await instance.server.connect(transport);
+    bindCredentials(transport, credentials);
+  }
+
+  // Sends the user to Pipedrive to grant access
+  function handleOAuthAuthorize(oauth: OAuthClient, res: ServerResponse): void {
+    const now = Date.now();
+    for (const [state, expiresAt] of oauthStates) {
+      if (expiresAt <= now) {
+        oauthStates.delete(state);
+      }
+    }
+    const state = randomBytes(16).toString('base64url');
+    oauthStates.set(state, now + OAUTH_STATE_TTL_MS);
+    res.writeHead(302, { 'Location': oauth.authorizationUrl(state) });
+    res.end();
+  }
+
+  // Pipedrive redirects here with an authorization code, which is exchanged for tokens
+  async function handleOAuthCallback(oauth: OAuthClient, res: ServerResponse, url: URL): Promise<void> {
+    const state = url.searchParams.get('state') || '';
+    const expiresAt = oauthStates.get(state);
+    oauthStates.delete(state);
+    if (!expiresAt || expiresAt <= Date.now()) {
+      sendText(res, 400, "This authorization link has expired or was already used. Start again at /oauth/authorize.");
+      return;
+    }
+    const code = url.searchParams.get('code');
+    if (!code) {
+      sendText(res, 400, `Pipedrive did not grant access: ${url.searchParams.get('error') || 'no authorization code'}`);
+      return;
+    }
+
+    const { key, token } = await oauth.authorize(code);
+    const account = token.user_name ? `${token.user_name}${token.company_domain ? ` (${token.company_domain})` : ''}` : 'your Pipedrive user';
+    sendText(res, 200, [
+      `Authorized as ${account}.`,
+      "",
+      "Send this header when opening MCP sessions to act as this user:",
+      `X-Pipedrive-Credential: ${key}`,
+      "",
+      "Keep it secret: it grants the same access as your Pipedrive login."
+    ].join('\n'));
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const session = sessions.get(url.searchParams.get('sessionId') || '');
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendRpcError(res, 404, "Session not found");
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  async function route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+      return;
+    }
+
+    // The OAuth redirects happen in the user's browser, which cannot send the bearer token
+    if (options.oauth && url.pathname === '/oauth/authorize' && req.method === 'GET') {
+      handleOAuthAuthorize(options.oauth, res);
+      return;
+    }
+    if (options.oauth && url.pathname === '/oauth/callback' && req.method === 'GET') {
+      await handleOAuthCallback(options.oauth, res, url);
+      return;
+    }
+
+    // Pipedrive authenticates webhook posts with basic auth instead of the bearer token
+    if (options.webhooks && url.pathname === options.webhooks.path) {
+      await options.webhooks.handle(req, res, url);
+      return;
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      sendRpcError(res, 401, "Unauthorized", { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    if (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+      await handleStreamable(req, res);
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      await handleSseStream(req, res);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      await handleSseMessage(req, res, url);
+    } else {
+      sendRpcError(res, 404, "Not found");
+    }
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    route(req, res).catch(error => {
+      logger.error("Error handling HTTP request", { method: req.method, url: req.url, error });
+      if (!res.headersSent) {
+        sendRpcError(res, 500, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return {
+    httpServer,
+    close: async () => {
+      await Promise.all([...sessions.keys()].map(closeSession));
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  };
+}
@@ -0,0 +1,174 @@
+// Filtering, sorting, projection and cursor helpers for list tools
+
+export type SortDirection = 'asc' | 'desc';
+
+// Position in a listing: either an API cursor plus the number of items already
+// consumed from that page, or a plain offset into an offset-paged or locally
+// sorted result
+export type ListCursor =
+  | { mode: 'api'; cursor: string | null; skip: number }
+  | { mode: 'offset'; offset: number };
+
+export function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string): ListCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (cursor?.mode === 'api' || cursor?.mode === 'offset') {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid cursor "${value}". Pass the next_cursor value from a previous response unchanged.`);
+}
+
+function toTimestamp(value: unknown, endOfDay: boolean): number | null {
+  if (typeof value !== 'string' || value === '') {
+    return null;
+  }
+  // Date-only bounds cover the whole day
+  const normalized = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`
+    // Pipedrive v1 timestamps use a space and no zone, e.g. "2024-01-31 10:00:00"
+    : /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value;
+  const timestamp = Date.parse(normalized);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+// Whether a date/time value lies within an inclusive range; open bounds are ignored
+export function inDateRange(value: unknown, from?: string, to?: string): boolean {
+  if (!from && !to) {
+    return true;
+  }
+  const timestamp = toTimestamp(value, false);
+  if (timestamp === null) {
+    return false;
+  }
+  const lower = from ? toTimestamp(from, false) : null;
+  const upper = to ? toTimestamp(to, true) : null;
+  return (lower === null || timestamp >= lower) && (upper === null || timestamp <= upper);
+}
+
+// Whether a numeric value lies within an inclusive range; open bounds are ignored
+export function inNumberRange(value: unknown, min?: number, max?: number): boolean {
+  if (min === undefined && max === undefined) {
+    return true;
+  }
+  const number = typeof value === 'number' ? value : Number(value);
+  if (value === null || value === undefined || Number.isNaN(number)) {
+    return false;
+  }
+  return (min === undefined || number >= min) && (max === undefined || number <= max);
+}
+
+function valueMatches(actual: unknown, expected: string | number | boolean): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some(item => valueMatches(item, expected));
+  }
+  if (actual && typeof actual === 'object') {
+    // Monetary fields are { value, currency }, reference fields carry a `value` or `id`
+    const nested = actual as Record<string, unknown>;
+    return valueMatches(nested.value ?? nested.id ?? nested.name, expected);
+  }
+  if (actual === null || actual === undefined) {
+    return false;
+  }
+  if (typeof expected === 'number' || typeof actual === 'number') {
+    return Number(actual) === Number(expected);
+  }
+  return String(actual).trim().toLowerCase() === String(expected).trim().toLowerCase();
+}
+
+function lookupCustomField(record: Record<string, any>, key: string): unknown {
+  if (record.custom_fields && typeof record.custom_fields === 'object' && key in record.custom_fields) {
+    return record.custom_fields[key];
+  }
+  return record[key];
+}
+
+/**
+ * Whether a record matches every custom field filter. Filters may use field
+ * names and option labels (matched against the resolved record) or raw hash
+ * keys and option IDs (matched against the raw record).
+ */
+export function matchesCustomFieldFilters(
+  raw: Record<string, any>,
+  resolved: Record<string, any>,
+  filters: Record<string, string | number | boolean> | undefined
+): boolean {
+  if (!filters) {
+    return true;
+  }
+  return Object.entries(filters).every(([key, expected]) =>
+    valueMatches(lookupCustomField(resolved, key), expected) ||
+    valueMatches(lookupCustomField(raw, key), expected)
+  );
+}
+
+// Sort a copy of the records by a top-level key; empty values always sort last
+export function sortRecords<T extends Record<string, any>>(records: T[], key: string, direction: SortDirection = 'asc'): T[] {
+  const factor = direction === 'desc' ? -1 : 1;
+  return [...records].sort((a, b) => {
+    const left = a[key];
+    const right = b[key];
+    if (left === null || left === undefined || left === '') {
+      return right === null || right === undefined || right === '' ? 0 : 1;
+    }
+    if (right === null || right === undefined || right === '') {
+      return -1;
+    }
+    if (typeof left === 'number' && typeof right === 'number') {
+      return (left - right) * factor;
+    }
+    return String(left).localeCompare(String(right)) * factor;
+  });
+}
+
+/**
+ * Keeps only the requested keys of a record. `id` is always kept, and custom
+ * fields nested under `custom_fields` (API v2) can be selected by name as well.
+ */
+export function projectFields(record: Record<string, any>, fields: string[] | undefined): Record<string, any> {
+  if (!fields || fields.length === 0) {
+    return record;
+  }
+
+  const projected: Record<string, any> = { id: record.id };
+  for (const field of fields) {
+    if (field in record) {
+      projected[field] = record[field];
+    } else if (record.custom_fields && typeof record.custom_fields === 'object' && field in record.custom_fields) {
+      projected.custom_fields = { ...(projected.custom_fields || {}), [field]: record.custom_fields[field] };
+    }
+  }
+  return projected;
+}
+
+/**
+ * Count and resume information for list tool results. `total_count` is only
+ * reported when the result is complete, so a partial page never looks whole.
+ */
+export function describePage(count: number, next: ListCursor | null, noun: string, resumed = false): Record<string, unknown> {
+  if (next) {
+    return {
+      returned_count: count,
+      truncated: true,
+      next_cursor: encodeCursor(next),
+      message: `Returned ${count} ${noun} but more are available. Call again with cursor set to next_cursor to continue.`
+    };
+  }
+  return {
+    ...(resumed ? {} : { total_count: count }),
+    returned_count: count,
+    truncated: false,
+    next_cursor: null
+  };
+}
+
+// Message for a filtered scan that stopped after its page cap, where the rest of the listing may hold more matches
+export function stoppedScanMessage(count: number, noun: string, pages: number): string {
+  return `Found ${count} ${noun} and stopped after scanning ${pages} pages; more may match further on. Call again with cursor set to next_cursor to keep scanning.`;
+}
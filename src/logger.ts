@@ -0,0 +1,212 @@
+// Structured JSON logging to stderr or a file. stdout is reserved for the stdio transport.
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { createWriteStream, WriteStream } from "node:fs";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LoggingLevel, SetLevelRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { wrapToolRegistration } from "./toolHooks.js";
+
+export type LogLevel = 'debug' | 'info' | 'warning' | 'error';
+
+// Severity order of the MCP logging levels, which clients may use in logging/setLevel
+export const LOG_LEVEL_SEVERITY: Record<LoggingLevel, number> = {
+  debug: 0,
+  info: 1,
+  notice: 2,
+  warning: 3,
+  error: 4,
+  critical: 5,
+  alert: 6,
+  emergency: 7
+};
+
+export type LogEntry = Record<string, unknown> & { time: string; level: LogLevel; message: string };
+
+// Receives the entries logged while handling one client's requests
+export type LogForwarder = (entry: LogEntry) => void;
+
+export interface LogContext {
+  request_id?: string;
+  tool?: string;
+  forward?: LogForwarder;
+}
+
+const context = new AsyncLocalStorage<LogContext>();
+
+// Runs `fn` so that everything it logs, including later async work, carries `values`
+export function withLogContext<T>(values: LogContext, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...values }, fn);
+}
+
+// The threshold is read lazily so a LOG_LEVEL loaded by dotenv at startup is picked up
+export function configuredLogLevel(): LogLevel {
+  const level = (process.env.LOG_LEVEL || '').trim().toLowerCase();
+  if (level === 'warn') {
+    return 'warning';
+  }
+  return level === 'debug' || level === 'info' || level === 'warning' || level === 'error' ? level : 'info';
+}
+
+// === REDACTION ===
+
+const REDACTED = '[REDACTED]';
+const SECRET_KEY = /token|secret|password|authorization|api[-_]?key|credential/i;
+const SECRET_ENV_NAME = /TOKEN|SECRET|PASSWORD|CREDENTIAL/;
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/(api_token=)[^&\s"]+/gi, `$1${REDACTED}`],
+  [/(Bearer\s+)[A-Za-z0-9._~+/=-]+/g, `$1${REDACTED}`]
+];
+
+// Secrets by the number of registrations that still hold them
+const registeredSecrets = new Map<string, number>();
+
+// Makes sure a secret that is not in the environment, e.g. a per-session token, never appears in logs
+export function registerSecret(secret: string): void {
+  if (secret.length >= 8) {
+    registeredSecrets.set(secret, (registeredSecrets.get(secret) ?? 0) + 1);
+  }
+}
+
+// Undoes one registerSecret once the secret is no longer used, e.g. when the session that sent it closes
+export function releaseSecret(secret: string): void {
+  const count = registeredSecrets.get(secret);
+  if (count === undefined) {
+    return;
+  }
+  if (count > 1) {
+    registeredSecrets.set(secret, count - 1);
+  } else {
+    registeredSecrets.delete(secret);
+  }
+}
+
+function knownSecrets(): string[] {
+  const fromEnv = Object.entries(process.env)
+    .filter(([name, value]) => SECRET_ENV_NAME.test(name) && value && value.length >= 8)
+    .map(([, value]) => value as string);
+  return [...fromEnv, ...registeredSecrets.keys()];
+}
+
+function redactString(text: string, secrets: string[]): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, replacement);
+  }
+  return redacted;
+}
+
+function redactValue(value: unknown, secrets: string[], depth = 0): unknown {
+  if (typeof value === 'string') {
+    return redactString(value, secrets);
+  }
+  if (value instanceof Error) {
+    // Typed errors add their category, status and so on through toJSON
+    const details = typeof (value as any).toJSON === 'function' ? (value as any).toJSON() : {};
+    return redactValue({ name: value.name, ...details, message: value.message, stack: value.stack }, secrets, depth);
+  }
+  if (!value || typeof value !== 'object' || depth > 8) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, secrets, depth + 1));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SECRET_KEY.test(key) && item !== null && item !== undefined ? REDACTED : redactValue(item, secrets, depth + 1)
+  ]));
+}
+
+// Removes API tokens and other secrets from anything about to be logged
+export function redact<T>(value: T): T {
+  return redactValue(value, knownSecrets()) as T;
+}
+
+// === OUTPUT ===
+
+let fileStream: WriteStream | null = null;
+let filePath: string | null = null;
+
+function write(line: string): void {
+  const path = process.env.LOG_FILE?.trim();
+  if (!path) {
+    process.stderr.write(`${line}\n`);
+    return;
+  }
+  if (!fileStream || filePath !== path) {
+    fileStream?.end();
+    filePath = path;
+    fileStream = createWriteStream(path, { flags: 'a' });
+    fileStream.on('error', error => process.stderr.write(`Could not write log file ${path}: ${error.message}\n`));
+  }
+  fileStream.write(`${line}\n`);
+}
+
+function log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+  if (LOG_LEVEL_SEVERITY[level] < LOG_LEVEL_SEVERITY[configuredLogLevel()]) {
+    return;
+  }
+  const { forward, ...scope } = context.getStore() ?? {};
+  const entry = redact({ time: new Date().toISOString(), level, message, ...scope, ...fields }) as LogEntry;
+  write(JSON.stringify(entry));
+  forward?.(entry);
+}
+
+/**
+ * Writes one JSON object per line to stderr, or to LOG_FILE when set.
+ * Entries below LOG_LEVEL (debug, info, warning or error; default info) are
+ * dropped. Entries logged during a tool call carry its request ID and are also
+ * sent to the calling client as MCP logging notifications.
+ */
+export const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => log('debug', message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => log('info', message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => log('warning', message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => log('error', message, fields)
+};
+
+/**
+ * Gives every tool call on `server` from now on a request ID and logs how it
+ * ended. Entries logged during a call are also sent to the client as MCP
+ * logging notifications, filtered by the level it asked for with logging/setLevel.
+ */
+export function attachLogging(server: McpServer): void {
+  let clientLevel: LoggingLevel | null = null;
+
+  server.server.registerCapabilities({ logging: {} });
+  server.server.setRequestHandler(SetLevelRequestSchema, async request => {
+    clientLevel = request.params.level;
+    return {};
+  });
+
+  const forward: LogForwarder = ({ level, ...data }) => {
+    if (clientLevel && LOG_LEVEL_SEVERITY[level] < LOG_LEVEL_SEVERITY[clientLevel]) {
+      return;
+    }
+    // A client that went away must not break the call that is logging
+    server.server.sendLoggingMessage({ level, logger: 'pipedrive-mcp-server', data }).catch(() => undefined);
+  };
+
+  wrapToolRegistration(server, tool => ({
+    ...tool,
+    handler: (args, extra) => withLogContext({ request_id: randomUUID(), tool: tool.name, forward }, async () => {
+      const started = Date.now();
+      logger.debug("Tool call started", { arguments: args });
+      try {
+        const result: any = await tool.handler(args, extra);
+        if (result?.isError) {
+          logger.warn("Tool call failed", { duration_ms: Date.now() - started });
+        } else {
+          logger.info("Tool call finished", { duration_ms: Date.now() - started });
+        }
+        return result;
+      } catch (error) {
+        logger.error("Tool call threw", { error, duration_ms: Date.now() - started });
+        throw error;
+      }
+    })
+  }));
+}
@@ -0,0 +1,596 @@
+// Optional local SQLite mirror of deals, persons, organizations, activities and
+// leads, kept up to date incrementally and queried with a restricted DSL
+
+import { readFile, rename, writeFile } from "node:fs/promises";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+import { PipedriveRequest, pipedriveRequest } from "./api.js";
+import { currentCredentials } from "./credentials.js";
+import { logger } from "./logger.js";
+import { collectCursorPages, collectOffsetPages, MAX_PAGE_SIZE } from "./pagination.js";
+
+export const MIRROR_ENTITIES = ['deals', 'persons', 'organizations', 'activities', 'leads'] as const;
+
+export type MirrorEntity = typeof MIRROR_ENTITIES[number];
+
+export const FILTER_OPS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'contains', 'is_null', 'not_null'] as const;
+
+export const AGGREGATE_FUNCTIONS = ['count', 'sum', 'avg', 'min', 'max'] as const;
+
+// Bumping this drops and rebuilds the tables of an existing mirror file
+const SCHEMA_VERSION = 2;
+
+// Incremental syncs look this far before the previous sync, so records
+// changed while it ran are not missed
+const SYNC_OVERLAP_MS = 60 * 1000;
+
+// Leads report no deletions, so they are reloaded in full at least this often
+const LEADS_FULL_SYNC_MS = 60 * 60 * 1000;
+
+type ColumnType = 'integer' | 'real' | 'text' | 'boolean';
+
+interface MirrorColumn {
+  name: string;
+  type: ColumnType;
+  // Reads the value from an API record; defaults to the key of the same name
+  extract?: (record: any) => unknown;
+}
+
+interface MirrorTable {
+  columns: MirrorColumn[];
+  // `items` value of /v1/recents that reports deletions, if the entity has one
+  recentsItem?: string;
+  // Without recentsItem: how often a full sync replaces the incremental one, which drops deleted records
+  fullSyncIntervalMs?: number;
+  fetchChanged: (since: string | null) => Promise<any[]>;
+}
+
+// Another record's ID: a number in API v2, an object with `value` in API v1
+function refId(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (value && typeof value === 'object' && typeof (value as any).value === 'number') {
+    return (value as any).value;
+  }
+  return null;
+}
+
+function primaryDetail(details: unknown): string | null {
+  if (!Array.isArray(details) || details.length === 0) {
+    return null;
+  }
+  return (details.find(detail => detail?.primary) ?? details[0])?.value ?? null;
+}
+
+// Records of an API v2 list, all of them or those updated since `since`
+function fetchV2(path: string) {
+  return async (since: string | null) => (await collectCursorPages({
+    path,
+    query: since ? { updated_since: since, sort_by: 'update_time', sort_direction: 'asc' } : {}
+  })).items;
+}
+
+// Leads have no updated_since filter, so they are read newest first until
+// one is older than `since`
+async function fetchLeads(since: string | null): Promise<any[]> {
+  const leads: any[] = [];
+  for (let start = 0; ; start += MAX_PAGE_SIZE) {
+    const response = await pipedriveRequest({
+      method: 'GET',
+      path: '/v1/leads',
+      query: { archived_status: 'all', sort: 'update_time DESC', start, limit: MAX_PAGE_SIZE }
+    });
+    const page: any[] = Array.isArray(response.data) ? response.data : [];
+    for (const lead of page) {
+      if (since && typeof lead.update_time === 'string' && Date.parse(lead.update_time) < Date.parse(since)) {
+        return leads;
+      }
+      leads.push(lead);
+    }
+    if (page.length < MAX_PAGE_SIZE) {
+      return leads;
+    }
+  }
+}
+
+const TABLES: Record<MirrorEntity, MirrorTable> = {
+  deals: {
+    recentsItem: 'deal',
+    fetchChanged: fetchV2('/v2/deals'),
+    columns: [
+      { name: 'id', type: 'integer' },
+      { name: 'title', type: 'text' },
+      { name: 'status', type: 'text' },
+      { name: 'value', type: 'real' },
+      { name: 'currency', type: 'text' },
+      { name: 'pipeline_id', type: 'integer' },
+      { name: 'stage_id', type: 'integer' },
+      { name: 'owner_id', type: 'integer', extract: deal => deal.owner_id ?? deal.user_id },
+      { name: 'person_id', type: 'integer' },
+      { name: 'org_id', type: 'integer' },
+      { name: 'probability', type: 'real' },
+      { name: 'expected_close_date', type: 'text' },
+      { name: 'lost_reason', type: 'text' },
+      { name: 'add_time', type: 'text' },
+      { name: 'update_time', type: 'text' },
+      { name: 'stage_change_time', type: 'text' },
+      { name: 'close_time', type: 'text' },
+      { name: 'won_time', type: 'text' },
+      { name: 'lost_time', type: 'text' }
+    ]
+  },
+  persons: {
+    recentsItem: 'person',
+    fetchChanged: fetchV2('/v2/persons'),
+    columns: [
+      { name: 'id', type: 'integer' },
+      { name: 'name', type: 'text' },
+      { name: 'owner_id', type: 'integer' },
+      { name: 'org_id', type: 'integer' },
+      { name: 'email', type: 'text', extract: person => primaryDetail(person.emails ?? person.email) },
+      { name: 'phone', type: 'text', extract: person => primaryDetail(person.phones ?? person.phone) },
+      { name: 'add_time', type: 'text' },
+      { name: 'update_time', type: 'text' }
+    ]
+  },
+  organizations: {
+    recentsItem: 'organization',
+    fetchChanged: fetchV2('/v2/organizations'),
+    columns: [
+      { name: 'id', type: 'integer' },
+      { name: 'name', type: 'text' },
+      { name: 'owner_id', type: 'integer' },
+      { name: 'add_time', type: 'text' },
+      { name: 'update_time', type: 'text' }
+    ]
+  },
+  activities: {
+    recentsItem: 'activity',
+    fetchChanged: fetchV2('/v2/activities'),
+    columns: [
+      { name: 'id', type: 'integer' },
+      { name: 'subject', type: 'text' },
+      { name: 'type', type: 'text' },
+      { name: 'done', type: 'boolean' },
+      { name: 'due_date', type: 'text' },
+      { name: 'owner_id', type: 'integer', extract: activity => activity.owner_id ?? activity.user_id },
+      { name: 'deal_id', type: 'integer' },
+      { name: 'person_id', type: 'integer' },
+      { name: 'org_id', type: 'integer' },
+      { name: 'lead_id', type: 'text' },
+      { name: 'add_time', type: 'text' },
+      { name: 'update_time', type: 'text' },
+      { name: 'marked_as_done_time', type: 'text' }
+    ]
+  },
+  leads: {
+    fullSyncIntervalMs: LEADS_FULL_SYNC_MS,
+    fetchChanged: fetchLeads,
+    columns: [
+      { name: 'id', type: 'text' },
+      { name: 'title', type: 'text' },
+      { name: 'owner_id', type: 'integer' },
+      { name: 'person_id', type: 'integer' },
+      { name: 'organization_id', type: 'integer' },
+      { name: 'value_amount', type: 'real', extract: lead => lead.value?.amount },
+      { name: 'value_currency', type: 'text', extract: lead => lead.value?.currency },
+      { name: 'is_archived', type: 'boolean' },
+      { name: 'source_name', type: 'text' },
+      { name: 'expected_close_date', type: 'text' },
+      { name: 'add_time', type: 'text' },
+      { name: 'update_time', type: 'text' }
+    ]
+  }
+};
+
+// Writes through this server to these paths make the entity's mirror stale
+const STALE_AFTER_WRITES: Array<[RegExp, MirrorEntity]> = [
+  [/^\/v\d+\/deals\b/, 'deals'],
+  [/^\/v\d+\/persons\b/, 'persons'],
+  [/^\/v\d+\/organizations\b/, 'organizations'],
+  [/^\/v\d+\/activities\b/, 'activities'],
+  [/^\/v\d+\/leads\b/, 'leads']
+];
+
+// Settings are read lazily so values loaded by dotenv at startup are picked up
+function mirrorSettings() {
+  const maxAge = Number(process.env.PIPEDRIVE_MIRROR_MAX_AGE_SECONDS);
+  return {
+    file: process.env.PIPEDRIVE_MIRROR_FILE?.trim() || null,
+    maxAgeMs: (process.env.PIPEDRIVE_MIRROR_MAX_AGE_SECONDS && Number.isFinite(maxAge) && maxAge >= 0 ? maxAge : 300) * 1000
+  };
+}
+
+export function mirrorEnabled(): boolean {
+  return mirrorSettings().file !== null;
+}
+
+// Column names of each entity that queries may use
+export function mirrorColumns(entity: MirrorEntity): string[] {
+  return TABLES[entity].columns.map(column => column.name);
+}
+
+let database: Promise<Database> | null = null;
+const syncing = new Map<string, Promise<SyncResult>>();
+// `<credentials id>:<entity>` pairs changed by writes since their last sync
+const stale = new Set<string>();
+
+function sqlType(type: ColumnType): string {
+  return type === 'real' ? 'REAL' : type === 'text' ? 'TEXT' : 'INTEGER';
+}
+
+function createTables(db: Database): void {
+  for (const entity of MIRROR_ENTITIES) {
+    const columns = TABLES[entity].columns.map(column => `"${column.name}" ${sqlType(column.type)}`);
+    db.run(`CREATE TABLE IF NOT EXISTS "${entity}" (scope TEXT NOT NULL, ${columns.join(', ')}, data TEXT NOT NULL, PRIMARY KEY (scope, id))`);
+  }
+  db.run('CREATE TABLE IF NOT EXISTS sync_state (scope TEXT NOT NULL, entity TEXT NOT NULL, synced_at TEXT NOT NULL, full_synced_at TEXT NOT NULL, PRIMARY KEY (scope, entity))');
+}
+
+// Opens PIPEDRIVE_MIRROR_FILE, or an empty database when it does not exist yet or is `:memory:`
+function openDatabase(): Promise<Database> {
+  database ??= (async () => {
+    const SQL = await initSqlJs();
+    const { file } = mirrorSettings();
+    let db: Database | null = null;
+    if (file && file !== ':memory:') {
+      try {
+        db = new SQL.Database(await readFile(file));
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+          logger.warn("Could not read the mirror file, starting with an empty mirror", { file, error });
+        }
+      }
+    }
+    db ??= new SQL.Database();
+
+    const version = db.exec('PRAGMA user_version')[0]?.values[0]?.[0];
+    if (version !== SCHEMA_VERSION) {
+      for (const entity of [...MIRROR_ENTITIES, 'sync_state']) {
+        db.run(`DROP TABLE IF EXISTS "${entity}"`);
+      }
+      db.run(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+    }
+    createTables(db);
+    return db;
+  })();
+  database.catch(() => {
+    database = null;
+  });
+  return database;
+}
+
+async function persist(db: Database): Promise<void> {
+  const { file } = mirrorSettings();
+  if (!file || file === ':memory:') {
+    return;
+  }
+  try {
+    const temporary = `${file}.tmp`;
+    await writeFile(temporary, db.export(), { mode: 0o600 });
+    await rename(temporary, file);
+  } catch (error) {
+    logger.warn("Could not write the mirror file", { file, error });
+  }
+}
+
+function columnValue(column: MirrorColumn, record: any): SqlValue {
+  const value = column.extract ? column.extract(record) : record[column.name];
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (column.type) {
+    case 'integer':
+      return refId(value);
+    case 'real':
+      return typeof value === 'number' ? value : Number.isFinite(Number(value)) ? Number(value) : null;
+    case 'boolean':
+      return value ? 1 : 0;
+    default:
+      return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+}
+
+// Whether an entry of /v1/recents reports a deleted record
+function isDeletion(recent: any): boolean {
+  const data = recent?.data;
+  return !data || data.deleted === true || data.is_deleted === true || data.active_flag === false || data.status === 'deleted';
+}
+
+// /v1/recents takes `YYYY-MM-DD HH:MM:SS` in UTC
+function recentsTimestamp(iso: string): string {
+  return iso.slice(0, 19).replace('T', ' ');
+}
+
+// When the entity was last synced, and last synced in full
+function syncState(db: Database, scope: string, entity: MirrorEntity): { synced_at: string; full_synced_at: string } | null {
+  const statement = db.prepare('SELECT synced_at, full_synced_at FROM sync_state WHERE scope = ? AND entity = ?');
+  try {
+    statement.bind([scope, entity]);
+    if (!statement.step()) {
+      return null;
+    }
+    const [syncedAt, fullSyncedAt] = statement.get();
+    return { synced_at: String(syncedAt), full_synced_at: String(fullSyncedAt) };
+  } finally {
+    statement.free();
+  }
+}
+
+export interface SyncResult {
+  entity: MirrorEntity;
+  mode: 'full' | 'incremental';
+  upserted: number;
+  deleted: number;
+  synced_at: string;
+}
+
+async function runSync(db: Database, scope: string, entity: MirrorEntity, full: boolean): Promise<SyncResult> {
+  const table = TABLES[entity];
+  const state = full ? null : syncState(db, scope, entity);
+  const fullSyncDue = state !== null && table.fullSyncIntervalMs !== undefined &&
+    Date.now() - Date.parse(state.full_synced_at) > table.fullSyncIntervalMs;
+  const previous = fullSyncDue ? null : state?.synced_at;
+  const startedAt = new Date().toISOString();
+  const since = previous ? new Date(Date.parse(previous) - SYNC_OVERLAP_MS).toISOString() : null;
+
+  const changed = await table.fetchChanged(since);
+  const deletedIds: SqlValue[] = [];
+  if (since && table.recentsItem) {
+    const recents = await collectOffsetPages({
+      path: '/v1/recents',
+      query: { since_timestamp: recentsTimestamp(since), items: table.recentsItem }
+    });
+    for (const recent of recents.items) {
+      if (recent?.item === table.recentsItem && recent.id !== undefined && isDeletion(recent)) {
+        deletedIds.push(recent.id);
+      }
+    }
+  }
+
+  const names = table.columns.map(column => `"${column.name}"`);
+  const placeholders = table.columns.map(() => '?');
+  db.run('BEGIN');
+  try {
+    if (!since) {
+      db.run(`DELETE FROM "${entity}" WHERE scope = ?`, [scope]);
+    }
+    const insert = db.prepare(`INSERT OR REPLACE INTO "${entity}" (scope, ${names.join(', ')}, data) VALUES (?, ${placeholders.join(', ')}, ?)`);
+    try {
+      for (const record of changed) {
+        insert.run([scope, ...table.columns.map(column => columnValue(column, record)), JSON.stringify(record)]);
+      }
+    } finally {
+      insert.free();
+    }
+    for (const id of deletedIds) {
+      db.run(`DELETE FROM "${entity}" WHERE scope = ? AND id = ?`, [scope, id]);
+    }
+    db.run(
+      'INSERT OR REPLACE INTO sync_state (scope, entity, synced_at, full_synced_at) VALUES (?, ?, ?, ?)',
+      [scope, entity, startedAt, since && state ? state.full_synced_at : startedAt]
+    );
+    db.run('COMMIT');
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+
+  const result: SyncResult = {
+    entity,
+    mode: since ? 'incremental' : 'full',
+    upserted: changed.length,
+    deleted: deletedIds.length,
+    synced_at: startedAt
+  };
+  logger.info("Mirror synced", { ...result });
+  return result;
+}
+
+/**
+ * Brings the mirror of `entity` up to date for the current credentials: a full
+ * load the first time or when `full` is set, otherwise the records updated
+ * since the previous sync plus the deletions /v1/recents reports. Leads, whose
+ * deletions are not reported, are loaded in full again once the last full
+ * load is an hour old. Concurrent syncs of the same entity share one run.
+ */
+export async function syncMirror(entity: MirrorEntity, full = false): Promise<SyncResult> {
+  const db = await openDatabase();
+  const scope = currentCredentials().id;
+  const key = `${scope}:${entity}`;
+  const pending = syncing.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  stale.delete(key);
+  const promise = runSync(db, scope, entity, full)
+    .then(async result => {
+      await persist(db);
+      return result;
+    })
+    .catch(error => {
+      stale.add(key);
+      throw error;
+    })
+    .finally(() => syncing.delete(key));
+  syncing.set(key, promise);
+  return promise;
+}
+
+// Syncs `entity` when it was never synced, is older than
+// PIPEDRIVE_MIRROR_MAX_AGE_SECONDS or was changed through this server
+async function ensureFresh(entity: MirrorEntity): Promise<string> {
+  const db = await openDatabase();
+  const scope = currentCredentials().id;
+  const last = syncState(db, scope, entity)?.synced_at;
+  const { maxAgeMs } = mirrorSettings();
+  if (last && !stale.has(`${scope}:${entity}`) && Date.now() - Date.parse(last) <= maxAgeMs) {
+    return last;
+  }
+  return (await syncMirror(entity)).synced_at;
+}
+
+// Marks the entities a write that reached Pipedrive changed, so the next query syncs them first
+export function markMirrorStale(request: PipedriveRequest): void {
+  if (request.method === 'GET') {
+    return;
+  }
+  const scope = currentCredentials().id;
+  for (const [pattern, entity] of STALE_AFTER_WRITES) {
+    if (pattern.test(request.path)) {
+      stale.add(`${scope}:${entity}`);
+    }
+  }
+}
+
+export type FilterOp = typeof FILTER_OPS[number];
+export type AggregateFunction = typeof AGGREGATE_FUNCTIONS[number];
+type FilterValue = string | number | boolean;
+
+export interface MirrorQuery {
+  entity: MirrorEntity;
+  filters?: Array<{ field: string; op: FilterOp; value?: FilterValue | FilterValue[] | null }>;
+  fields?: string[];
+  group_by?: string[];
+  aggregates?: Array<{ fn: AggregateFunction; field?: string; as?: string }>;
+  order_by?: Array<{ field: string; direction?: 'asc' | 'desc' }>;
+  limit: number;
+}
+
+export interface MirrorQueryResult {
+  rows: Record<string, SqlValue>[];
+  // More rows matched than `limit`
+  truncated: boolean;
+  synced_at: string;
+  sql: string;
+}
+
+const COMPARISONS: Partial<Record<FilterOp, string>> = { eq: '=', ne: 'IS NOT', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+/**
+ * Turns a query into one SELECT over the current credentials' rows. Only the
+ * entity's known columns can be named, and every value is a bound parameter,
+ * so the statement can neither reach other data nor change anything.
+ */
+function buildQuery(query: MirrorQuery, scope: string): { sql: string; params: SqlValue[] } {
+  const table = TABLES[query.entity];
+  const known = new Map(table.columns.map(column => [column.name, column]));
+  const column = (name: string, role: string): MirrorColumn => {
+    const found = known.get(name);
+    if (!found) {
+      throw new Error(`Unknown ${role} field "${name}" for ${query.entity}; use one of ${[...known.keys()].join(', ')}`);
+    }
+    return found;
+  };
+  const bindable = (target: MirrorColumn, value: unknown): SqlValue => {
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new Error(`Filter on ${target.name} needs a string, number or boolean value`);
+    }
+    return value;
+  };
+
+  const params: SqlValue[] = [scope];
+  const where = ['scope = ?'];
+  for (const filter of query.filters ?? []) {
+    const target = column(filter.field, 'filter');
+    const name = `"${target.name}"`;
+    if (filter.op === 'is_null' || filter.op === 'not_null') {
+      where.push(`${name} IS ${filter.op === 'is_null' ? '' : 'NOT '}NULL`);
+    } else if (filter.op === 'in') {
+      if (!Array.isArray(filter.value) || filter.value.length === 0) {
+        throw new Error(`Filter "in" on ${target.name} needs a non-empty array value`);
+      }
+      where.push(`${name} IN (${filter.value.map(() => '?').join(', ')})`);
+      params.push(...filter.value.map(value => bindable(target, value)));
+    } else if (filter.op === 'contains') {
+      const escaped = String(bindable(target, filter.value)).replace(/[\\%_]/g, match => `\\${match}`);
+      where.push(`${name} LIKE ? ESCAPE '\\'`);
+      params.push(`%${escaped}%`);
+    } else {
+      if (Array.isArray(filter.value) || filter.value === undefined || filter.value === null) {
+        throw new Error(`Filter "${filter.op}" on ${target.name} needs a single value; use is_null or not_null for missing values`);
+      }
+      where.push(`${name} ${COMPARISONS[filter.op]} ?`);
+      params.push(bindable(target, filter.value));
+    }
+  }
+
+  const groupBy = (query.group_by ?? []).map(name => column(name, 'group_by').name);
+  const aggregates = (query.aggregates ?? []).map(aggregate => {
+    if (aggregate.fn !== 'count' && !aggregate.field) {
+      throw new Error(`Aggregate ${aggregate.fn} needs a field`);
+    }
+    const field = aggregate.field ? column(aggregate.field, 'aggregate').name : null;
+    const alias = aggregate.as ?? (field ? `${aggregate.fn}_${field}` : 'count');
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(alias)) {
+      throw new Error(`Aggregate name "${alias}" may only contain letters, digits and underscores`);
+    }
+    return { expression: `${aggregate.fn.toUpperCase()}(${field ? `"${field}"` : '*'})`, alias };
+  });
+
+  const grouped = groupBy.length > 0 || aggregates.length > 0;
+  let selected: string[];
+  if (grouped) {
+    if (query.fields && query.fields.length > 0) {
+      throw new Error("fields cannot be combined with group_by or aggregates; grouped rows contain the group_by fields and the aggregates");
+    }
+    selected = [
+      ...groupBy.map(name => `"${name}"`),
+      ...(aggregates.length > 0 ? aggregates : [{ expression: 'COUNT(*)', alias: 'count' }]).map(aggregate => `${aggregate.expression} AS "${aggregate.alias}"`)
+    ];
+  } else {
+    const fields = query.fields && query.fields.length > 0 ? query.fields : [...known.keys()];
+    selected = fields.map(name => `"${column(name, 'fields').name}"`);
+  }
+
+  const orderable = new Set(grouped
+    ? [...groupBy, ...(aggregates.length > 0 ? aggregates.map(aggregate => aggregate.alias) : ['count'])]
+    : known.keys());
+  const orderBy = (query.order_by ?? []).map(order => {
+    if (!orderable.has(order.field)) {
+      throw new Error(`Cannot order by "${order.field}"; use one of ${[...orderable].join(', ')}`);
+    }
+    return `"${order.field}" ${order.direction === 'desc' ? 'DESC' : 'ASC'}`;
+  });
+
+  // One extra row tells whether the result was cut at the limit
+  params.push(query.limit + 1);
+  const sql = [
+    `SELECT ${selected.join(', ')} FROM "${query.entity}"`,
+    `WHERE ${where.join(' AND ')}`,
+    groupBy.length > 0 ? `GROUP BY ${groupBy.map(name => `"${name}"`).join(', ')}` : '',
+    orderBy.length > 0 ? `ORDER BY ${orderBy.join(', ')}` : '',
+    'LIMIT ?'
+  ].filter(Boolean).join(' ');
+  return { sql, params };
+}
+
+// Runs a query against the mirror, syncing the entity first when it is out of date
+export async function queryMirror(query: MirrorQuery): Promise<MirrorQueryResult> {
+  const { sql, params } = buildQuery(query, currentCredentials().id);
+  const synced = await ensureFresh(query.entity);
+  const db = await openDatabase();
+
+  const rows: Record<string, SqlValue>[] = [];
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+  } finally {
+    statement.free();
+  }
+
+  const truncated = rows.length > query.limit;
+  return {
+    rows: truncated ? rows.slice(0, query.limit) : rows,
+    truncated,
+    synced_at: synced,
+    sql
+  };
+}
@@ -0,0 +1,215 @@
+// OAuth 2.0 authorization-code flow for Pipedrive apps, with token refresh and file storage
+
+import { randomBytes } from "node:crypto";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { pipedriveRequest } from "./api.js";
+import { fingerprint, PipedriveCredentials, withCredentials } from "./credentials.js";
+import { errorFromResponse, PipedriveError, toPipedriveError } from "./errors.js";
+import { logger, registerSecret } from "./logger.js";
+
+const OAUTH_BASE_URL = 'https://oauth.pipedrive.com/oauth';
+
+// Access tokens are refreshed this long before they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  // Must match the callback URL registered for the app in Pipedrive
+  redirectUri: string;
+  // JSON file the tokens are kept in between restarts
+  tokenFile: string;
+}
+
+export interface StoredOAuthToken {
+  access_token: string;
+  refresh_token: string;
+  // Epoch milliseconds
+  expires_at: number;
+  api_domain: string;
+  scope: string;
+  user_id?: number;
+  user_name?: string;
+  company_id?: number;
+  company_domain?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  api_domain: string;
+  scope: string;
+}
+
+// Returns null when OAuth is not configured; throws when it is only partly configured
+export function loadOAuthConfig(env: NodeJS.ProcessEnv): OAuthConfig | null {
+  const clientId = env.PIPEDRIVE_OAUTH_CLIENT_ID?.trim();
+  if (!clientId) {
+    return null;
+  }
+  const clientSecret = env.PIPEDRIVE_OAUTH_CLIENT_SECRET?.trim();
+  const redirectUri = env.PIPEDRIVE_OAUTH_REDIRECT_URI?.trim();
+  if (!clientSecret || !redirectUri) {
+    throw new Error("PIPEDRIVE_OAUTH_CLIENT_SECRET and PIPEDRIVE_OAUTH_REDIRECT_URI are required when PIPEDRIVE_OAUTH_CLIENT_ID is set");
+  }
+  return {
+    clientId,
+    clientSecret,
+    redirectUri,
+    tokenFile: env.PIPEDRIVE_OAUTH_TOKEN_FILE?.trim() || '.pipedrive-oauth-tokens.json'
+  };
+}
+
+/**
+ * Creates an OAuth client for a Pipedrive app. Authorizations are stored under
+ * a random credential key; `credentials(key)` returns API credentials for one
+ * of them that refresh the access token as needed and persist the result.
+ */
+export async function createOAuthClient(config: OAuthConfig) {
+  const tokens = new Map<string, StoredOAuthToken>(Object.entries(await readTokenFile(config.tokenFile)));
+  const credentialsByKey = new Map<string, PipedriveCredentials>();
+  registerSecret(config.clientSecret);
+  for (const [key, token] of tokens) {
+    rememberSecrets(key, token);
+  }
+
+  async function save(): Promise<void> {
+    const temporary = `${config.tokenFile}.tmp`;
+    await writeFile(temporary, JSON.stringify(Object.fromEntries(tokens), null, 2), { mode: 0o600 });
+    await rename(temporary, config.tokenFile);
+  }
+
+  async function requestToken(params: Record<string, string>): Promise<StoredOAuthToken> {
+    const response = await fetch(`${OAUTH_BASE_URL}/token`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${config.clientId}:${config.clientSecret}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams(params).toString()
+    });
+    const payload: any = await response.json().catch(() => null);
+    if (!response.ok || !payload?.access_token) {
+      const detail = payload?.error_description || payload?.error || response.statusText;
+      throw errorFromResponse(response.status, { error: detail }, null, 'Pipedrive OAuth token request');
+    }
+    const token = payload as TokenResponse;
+    registerSecret(token.access_token);
+    registerSecret(token.refresh_token);
+    return {
+      access_token: token.access_token,
+      refresh_token: token.refresh_token,
+      expires_at: Date.now() + token.expires_in * 1000,
+      api_domain: token.api_domain,
+      scope: token.scope
+    };
+  }
+
+  function credentials(key: string): PipedriveCredentials | null {
+    if (!tokens.has(key)) {
+      return null;
+    }
+    const existing = credentialsByKey.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    // Concurrent calls share one refresh, since Pipedrive rotates the refresh token
+    let refreshing: Promise<void> | null = null;
+    function refreshToken(): Promise<void> {
+      refreshing ??= (async () => {
+        const stored = tokens.get(key);
+        if (!stored) {
+          throw new PipedriveError("This Pipedrive authorization has been removed; authorize again", { category: 'unauthorized' });
+        }
+        try {
+          const refreshed = await requestToken({ grant_type: 'refresh_token', refresh_token: stored.refresh_token });
+          tokens.set(key, { ...stored, ...refreshed });
+          await save();
+        } catch (error) {
+          const cause = toPipedriveError(error);
+          throw new PipedriveError(`Could not refresh the Pipedrive OAuth token${stored.user_name ? ` of ${stored.user_name}` : ''}, authorize again: ${cause.message}`, {
+            category: cause.category === 'upstream' ? 'upstream' : 'unauthorized',
+            status: cause.status
+          });
+        }
+      })().finally(() => {
+        refreshing = null;
+      });
+      return refreshing;
+    }
+
+    const created: PipedriveCredentials = {
+      id: `oauth:${fingerprint(key)}`,
+      kind: 'oauth',
+      apiDomain: () => tokens.get(key)?.api_domain || '',
+      token: async () => {
+        if ((tokens.get(key)?.expires_at ?? 0) - REFRESH_MARGIN_MS <= Date.now()) {
+          await refreshToken();
+        }
+        return tokens.get(key)?.access_token || '';
+      },
+      refresh: async () => {
+        await refreshToken();
+        return true;
+      }
+    };
+    credentialsByKey.set(key, created);
+    return created;
+  }
+
+  // Exchanges an authorization code and stores the tokens under a new credential key
+  async function authorize(code: string): Promise<{ key: string; token: StoredOAuthToken }> {
+    const key = randomBytes(32).toString('base64url');
+    registerSecret(key);
+    tokens.set(key, await requestToken({ grant_type: 'authorization_code', code, redirect_uri: config.redirectUri }));
+
+    // Record whose account this is, so it can be recognised later
+    try {
+      const me = await withCredentials(credentials(key)!, () => pipedriveRequest({ method: 'GET', path: '/v1/users/me' }));
+      tokens.set(key, {
+        ...tokens.get(key)!,
+        user_id: me.data?.id,
+        user_name: me.data?.name,
+        company_id: me.data?.company_id,
+        company_domain: me.data?.company_domain
+      });
+    } catch (error) {
+      logger.warn("Could not look up the user of a new Pipedrive authorization", { error });
+    }
+
+    await save();
+    return { key, token: tokens.get(key)! };
+  }
+
+  return {
+    authorizationUrl: (state: string) => `${OAUTH_BASE_URL}/authorize?${new URLSearchParams({
+      client_id: config.clientId,
+      redirect_uri: config.redirectUri,
+      state
+    })}`,
+    authorize,
+    credentials
+  };
+}
+
+export type OAuthClient = Awaited<ReturnType<typeof createOAuthClient>>;
+
+// Credential keys and tokens must never show up in logs
+function rememberSecrets(key: string, token: StoredOAuthToken): void {
+  registerSecret(key);
+  registerSecret(token.access_token);
+  registerSecret(token.refresh_token);
+}
+
+async function readTokenFile(path: string): Promise<Record<string, StoredOAuthToken>> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Could not read the OAuth token file ${path}: ${error?.message ?? error}`);
+  }
+}
@@ -0,0 +1,237 @@
+// Output schemas of the tools, and the results that carry their structured content
+
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { SummarizedResult } from "./budget.js";
+
+// Another record: its ID in API v2, an object with the ID as `value` in API v1
+const recordRef = z.union([z.number(), z.object({ value: z.number().nullish() }).passthrough()]).nullish();
+
+// Custom field values, keyed by field name unless raw_custom_fields was set
+const customFieldValues = z.record(z.unknown()).nullish();
+
+const contactDetail = z.object({
+  value: z.string().nullish(),
+  label: z.string().nullish(),
+  primary: z.boolean().nullish()
+}).passthrough();
+
+// Records are open objects: list tools may project them to a few fields, and
+// custom fields appear as extra keys in API v1 responses
+export const dealSchema = z.object({
+  id: z.number(),
+  title: z.string().nullish(),
+  value: z.number().nullish(),
+  currency: z.string().nullish(),
+  status: z.string().nullish(),
+  pipeline_id: z.number().nullish(),
+  stage_id: z.number().nullish(),
+  owner_id: recordRef,
+  user_id: recordRef,
+  person_id: recordRef,
+  org_id: recordRef,
+  probability: z.number().nullish(),
+  expected_close_date: z.string().nullish(),
+  add_time: z.string().nullish(),
+  update_time: z.string().nullish(),
+  close_time: z.string().nullish(),
+  lost_reason: z.string().nullish(),
+  custom_fields: customFieldValues
+}).passthrough();
+
+export const personSchema = z.object({
+  id: z.number(),
+  name: z.string().nullish(),
+  owner_id: recordRef,
+  org_id: recordRef,
+  emails: z.array(contactDetail).nullish(),
+  phones: z.array(contactDetail).nullish(),
+  email: z.array(contactDetail).nullish(),
+  phone: z.array(contactDetail).nullish(),
+  add_time: z.string().nullish(),
+  update_time: z.string().nullish(),
+  custom_fields: customFieldValues
+}).passthrough();
+
+export const organizationSchema = z.object({
+  id: z.number(),
+  name: z.string().nullish(),
+  owner_id: recordRef,
+  address: z.union([z.string(), z.object({}).passthrough()]).nullish(),
+  add_time: z.string().nullish(),
+  update_time: z.string().nullish(),
+  custom_fields: customFieldValues
+}).passthrough();
+
+export const pipelineSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  order_nr: z.number().nullish(),
+  add_time: z.string().nullish(),
+  update_time: z.string().nullish()
+}).passthrough();
+
+export const stageSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  pipeline_id: z.number(),
+  pipeline_name: z.string().nullable(),
+  order_nr: z.number().nullish(),
+  deal_probability: z.number().nullish()
+}).passthrough();
+
+export const activitySchema = z.object({
+  id: z.number(),
+  subject: z.string().nullish(),
+  type: z.string().nullish(),
+  done: z.boolean().nullish(),
+  due_date: z.string().nullish(),
+  due_time: z.string().nullish(),
+  duration: z.string().nullish(),
+  owner_id: z.number().nullish(),
+  deal_id: z.number().nullish(),
+  person_id: z.number().nullish(),
+  org_id: z.number().nullish(),
+  lead_id: z.string().nullish(),
+  note: z.string().nullish()
+}).passthrough();
+
+export const activityTypeSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  key_string: z.string(),
+  active_flag: z.boolean()
+});
+
+export const noteSchema = z.object({
+  id: z.number(),
+  content: z.string(),
+  author: z.string().nullable(),
+  author_id: z.number().nullable(),
+  add_time: z.string().nullish(),
+  update_time: z.string().nullish(),
+  deal_id: z.number().nullable(),
+  deal_title: z.string().nullable(),
+  person_id: z.number().nullable(),
+  person_name: z.string().nullable(),
+  org_id: z.number().nullable(),
+  org_name: z.string().nullable(),
+  lead_id: z.string().nullable(),
+  pinned: z.object({
+    deal: z.boolean(),
+    person: z.boolean(),
+    organization: z.boolean(),
+    lead: z.boolean()
+  })
+});
+
+export const leadSchema = z.object({
+  id: z.string(),
+  title: z.string().nullish(),
+  owner_id: z.number().nullish(),
+  person_id: z.number().nullish(),
+  organization_id: z.number().nullish(),
+  label_ids: z.array(z.string()).nullish(),
+  labels: z.array(z.string()).optional().describe("Label names, in the order of label_ids"),
+  value: z.object({ amount: z.number(), currency: z.string() }).nullish(),
+  expected_close_date: z.string().nullish(),
+  is_archived: z.boolean().nullish(),
+  source_name: z.string().nullish(),
+  add_time: z.string().nullish(),
+  update_time: z.string().nullish()
+}).passthrough();
+
+export const leadLabelSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  color: z.string().optional()
+}).passthrough();
+
+export const productSchema = z.object({
+  id: z.number(),
+  name: z.string().nullish(),
+  code: z.string().nullish(),
+  unit: z.string().nullish(),
+  tax: z.number().nullish(),
+  category: z.union([z.string(), z.number()]).nullish(),
+  owner_id: recordRef,
+  is_deleted: z.boolean().nullish(),
+  prices: z.array(z.object({
+    price: z.number().nullish(),
+    currency: z.string().nullish(),
+    cost: z.number().nullish(),
+    direct_cost: z.number().nullish()
+  }).passthrough()).nullish().describe("Price per currency"),
+  custom_fields: customFieldValues
+}).passthrough();
+
+// A product attached to a deal, with its own price, quantity, discount and tax
+export const dealProductSchema = z.object({
+  id: z.number().describe("ID of the attachment, used to update or remove it"),
+  deal_id: z.number().nullish(),
+  product_id: z.number().nullish(),
+  name: z.string().nullish(),
+  item_price: z.number().nullish(),
+  quantity: z.number().nullish(),
+  discount: z.number().nullish(),
+  discount_type: z.string().nullish(),
+  tax: z.number().nullish(),
+  tax_method: z.string().nullish(),
+  sum: z.number().nullish().describe("Line total after discount and tax"),
+  currency: z.string().nullish(),
+  is_enabled: z.boolean().nullish(),
+  comments: z.string().nullish()
+}).passthrough();
+
+// Result of the Pipedrive search endpoints
+export const searchResultsShape = {
+  items: z.array(z.object({
+    result_score: z.number().nullish(),
+    item: z.object({ id: z.union([z.number(), z.string()]), type: z.string().nullish() }).passthrough()
+  }).passthrough())
+};
+
+// Count and resume information of list results, see describePage
+export const pageShape = {
+  total_count: z.number().optional().describe("Number of matches; only present when the result is complete"),
+  returned_count: z.number(),
+  truncated: z.boolean(),
+  next_cursor: z.string().nullable(),
+  message: z.string().optional(),
+  retries: z.number().describe("Rate-limit retries needed to fetch the result")
+};
+
+// Present when a list went over the response budget, see budgetItems
+export const summarizedSchema = z.object({
+  reason: z.string(),
+  total_items: z.number(),
+  returned_items: z.number(),
+  max_response_bytes: z.number(),
+  result_handle: z.string().describe("Pass to get-result-page to read the items that were left out"),
+  expires_at: z.string(),
+  stats: z.record(z.unknown()).describe("Aggregates over all items, e.g. counts by status and value totals")
+});
+
+// One line for list results, e.g. "Returned 50 deals; more are available with next_cursor"
+export function pageSummary(count: number, noun: string, truncated: boolean, summarized: SummarizedResult | null = null): string {
+  const more = truncated ? '; more are available with next_cursor' : '';
+  if (summarized) {
+    return `Found ${count} ${noun}, over the response budget: returned the first ${summarized.returned_items} with stats over all of them; read the rest with get-result-page and result_handle ${summarized.result_handle}${more}`;
+  }
+  return `Returned ${count} ${noun}${more}`;
+}
+
+/**
+ * The result a tool returns when it succeeds. `data` is the structured content
+ * matching the tool's output schema; the text block repeats it as compact JSON
+ * after a one-line summary, for clients that don't read structured content.
+ */
+export function structuredResult(summary: string, data: Record<string, unknown>): CallToolResult {
+  return {
+    content: [{
+      type: "text",
+      text: `${summary}\n${JSON.stringify(data)}`
+    }],
+    structuredContent: data
+  };
+}
@@ -0,0 +1,145 @@
+// Pagination over Pipedrive list endpoints: cursors for API v2, offsets for API v1
+
+import { createRequestStats, pipedriveRequest, RequestStats } from "./api.js";
+import { ListCursor } from "./listQuery.js";
+
+// Largest page size the v2 list endpoints accept
+export const MAX_PAGE_SIZE = 500;
+
+// Pages a tool that filters items locally reads per call before handing back a cursor
+export const MAX_SCAN_PAGES = 10;
+
+export interface CollectOptions<T> {
+  // Versioned list path, e.g. `/v2/persons`
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  // Where to resume; defaults to the start of the listing
+  start?: { cursor: string | null; skip: number };
+  // Stop once this many items were accepted
+  limit?: number;
+  // Stop after this many pages even if fewer than limit items were accepted
+  maxPages?: number;
+  // Maps each item to the value to collect, or null to leave it out
+  accept?: (item: any) => T | null | Promise<T | null>;
+  // Shared counters when one tool call collects several listings
+  stats?: RequestStats;
+}
+
+export interface CollectResult<T> {
+  items: T[];
+  // Position to resume from, null once the listing is exhausted
+  next: ListCursor | null;
+  pages: number;
+  // Whether maxPages ended the scan while the listing went on
+  stoppedEarly: boolean;
+  // Requests that had to be repeated because of rate limits or transient errors
+  retries: number;
+}
+
+/**
+ * Follows `additional_data.next_cursor` page by page until the listing ends,
+ * `limit` items were accepted or `maxPages` pages were read. When stopping
+ * inside a page, the returned position records how many of that page's items
+ * were already consumed.
+ * Every page goes through `pipedriveRequest`, so rate limits are retried.
+ */
+export async function collectCursorPages<T = any>(options: CollectOptions<T>): Promise<CollectResult<T>> {
+  const items: T[] = [];
+  let cursor = options.start?.cursor ?? null;
+  let skip = options.start?.skip ?? 0;
+  let pages = 0;
+  const stats = options.stats ?? createRequestStats();
+  const retriesBefore = stats.retries;
+  const finish = (next: ListCursor | null, stoppedEarly = false): CollectResult<T> => ({ items, next, pages, stoppedEarly, retries: stats.retries - retriesBefore });
+
+  while (true) {
+    pages++;
+    const response = await pipedriveRequest({
+      method: 'GET',
+      path: options.path,
+      query: { ...options.query, limit: MAX_PAGE_SIZE, cursor: cursor || undefined }
+    }, stats);
+    const pageItems: any[] = Array.isArray(response.data) ? response.data : [];
+    const pageCursor: string | null = response.additional_data?.next_cursor || null;
+
+    for (let index = skip; index < pageItems.length; index++) {
+      const item = options.accept ? await options.accept(pageItems[index]) : pageItems[index];
+      if (item !== null) {
+        items.push(item);
+      }
+
+      if (options.limit !== undefined && items.length >= options.limit) {
+        const restOfPage = index + 1 < pageItems.length;
+        const next: ListCursor | null = restOfPage
+          ? { mode: 'api', cursor, skip: index + 1 }
+          : pageCursor ? { mode: 'api', cursor: pageCursor, skip: 0 } : null;
+        return finish(next);
+      }
+    }
+
+    if (!pageCursor) {
+      return finish(null);
+    }
+    if (pageCursor === cursor) {
+      throw new Error(`Pagination of ${options.path} returned the same cursor twice; stopping to avoid an endless loop`);
+    }
+    if (options.maxPages !== undefined && pages >= options.maxPages) {
+      return finish({ mode: 'api', cursor: pageCursor, skip: 0 }, true);
+    }
+
+    cursor = pageCursor;
+    skip = 0;
+  }
+}
+
+export interface CollectOffsetOptions<T> extends Omit<CollectOptions<T>, 'start'> {
+  // Offset into the listing to resume from
+  start?: number;
+}
+
+/**
+ * Pages through an API v1 list endpoint with `start`/`limit` until
+ * `more_items_in_collection` is false, `limit` items were accepted or
+ * `maxPages` pages were read. The returned position is an offset into the
+ * listing.
+ */
+export async function collectOffsetPages<T = any>(options: CollectOffsetOptions<T>): Promise<CollectResult<T>> {
+  const items: T[] = [];
+  let start = options.start ?? 0;
+  let pages = 0;
+  const stats = options.stats ?? createRequestStats();
+  const retriesBefore = stats.retries;
+  const finish = (next: ListCursor | null, stoppedEarly = false): CollectResult<T> => ({ items, next, pages, stoppedEarly, retries: stats.retries - retriesBefore });
+
+  while (true) {
+    pages++;
+    const response = await pipedriveRequest({
+      method: 'GET',
+      path: options.path,
+      query: { ...options.query, start, limit: MAX_PAGE_SIZE }
+    }, stats);
+    const pageItems: any[] = Array.isArray(response.data) ? response.data : [];
+    const hasMore: boolean = response.additional_data?.pagination?.more_items_in_collection || false;
+
+    for (let index = 0; index < pageItems.length; index++) {
+      const item = options.accept ? await options.accept(pageItems[index]) : pageItems[index];
+      if (item !== null) {
+        items.push(item);
+      }
+
+      if (options.limit !== undefined && items.length >= options.limit) {
+        const consumed = start + index + 1;
+        return finish(index + 1 < pageItems.length || hasMore ? { mode: 'offset', offset: consumed } : null);
+      }
+    }
+
+    if (!hasMore || pageItems.length === 0) {
+      return finish(null);
+    }
+    if (options.maxPages !== undefined && pages >= options.maxPages) {
+      return finish({ mode: 'offset', offset: start + pageItems.length }, true);
+    }
+
+    start += pageItems.length;
+  }
+}
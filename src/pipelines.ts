@@ -0,0 +1,88 @@
+// Pipeline and stage lookup, including resolution of names to IDs
+
+import { z } from "zod";
+import { RequestStats } from "./api.js";
+import { cached } from "./cache.js";
+import { collectCursorPages } from "./pagination.js";
+
+// Fetch all pipelines, cached
+export function fetchPipelines(stats?: RequestStats): Promise<any[]> {
+  return cached('pipelines', 'all', async () => (await collectCursorPages({ path: '/v2/pipelines', stats })).items);
+}
+
+// Fetch every stage of every pipeline, annotated with its pipeline name; both listings are cached
+export async function fetchStagesWithPipelineNames(stats?: RequestStats): Promise<any[]> {
+  const [pipelines, stages] = await Promise.all([
+    fetchPipelines(stats),
+    cached('stages', 'all', async () => (await collectCursorPages({ path: '/v2/stages', stats })).items)
+  ]);
+
+  const pipelineNames = new Map(pipelines.map(pipeline => [pipeline.id, pipeline.name]));
+  return stages.map((stage: any) => ({
+    ...stage,
+    pipeline_name: pipelineNames.get(stage.pipeline_id) ?? null
+  }));
+}
+
+function matchesName(candidate: { name?: string }, name: string): boolean {
+  return (candidate.name || '').trim().toLowerCase() === name.trim().toLowerCase();
+}
+
+// Resolve a pipeline given either its ID or its name
+export async function resolvePipeline(pipeline: string | number): Promise<{ id: number; name: string }> {
+  const pipelines = await fetchPipelines();
+
+  const found = typeof pipeline === 'number'
+    ? pipelines.find(p => p.id === pipeline)
+    : pipelines.find(p => matchesName(p, pipeline)) ||
+      (/^\d+$/.test(pipeline) ? pipelines.find(p => p.id === Number(pipeline)) : undefined);
+
+  if (!found) {
+    const available = pipelines.map(p => `${p.name} (${p.id})`).join(', ');
+    throw new Error(`Pipeline "${pipeline}" not found. Available pipelines: ${available}`);
+  }
+
+  return { id: found.id, name: found.name };
+}
+
+// Resolve a stage given either its ID or its name, optionally restricted to one pipeline
+export async function resolveStage(stage: string | number, pipelineId?: number): Promise<{ id: number; name: string; pipeline_id: number; pipeline_name: string }> {
+  const allStages = await fetchStagesWithPipelineNames();
+  const candidates = pipelineId === undefined ? allStages : allStages.filter(s => s.pipeline_id === pipelineId);
+
+  let matches = typeof stage === 'number'
+    ? candidates.filter(s => s.id === stage)
+    : candidates.filter(s => matchesName(s, stage));
+
+  if (matches.length === 0 && typeof stage === 'string' && /^\d+$/.test(stage)) {
+    matches = candidates.filter(s => s.id === Number(stage));
+  }
+
+  if (matches.length === 0) {
+    const available = candidates.map(s => `${s.name} (${s.id}, ${s.pipeline_name})`).join(', ');
+    throw new Error(`Stage "${stage}" not found${pipelineId === undefined ? '' : ` in pipeline ${pipelineId}`}. Available stages: ${available}`);
+  }
+
+  if (matches.length > 1) {
+    const pipelineNames = matches.map(s => `${s.pipeline_name} (${s.pipeline_id})`).join(', ');
+    throw new Error(`Stage "${stage}" exists in several pipelines: ${pipelineNames}. Specify the pipeline as well.`);
+  }
+
+  const [match] = matches;
+  return { id: match.id, name: match.name, pipeline_id: match.pipeline_id, pipeline_name: match.pipeline_name };
+}
+
+// Resolve optional pipeline and stage arguments to the IDs the deals API expects
+export async function resolvePipelineAndStage(pipeline?: string | number, stage?: string | number): Promise<{ pipeline_id?: number; stage_id?: number }> {
+  const resolvedPipeline = pipeline === undefined ? undefined : await resolvePipeline(pipeline);
+
+  if (stage === undefined) {
+    return resolvedPipeline ? { pipeline_id: resolvedPipeline.id } : {};
+  }
+
+  const resolvedStage = await resolveStage(stage, resolvedPipeline?.id);
+  return { pipeline_id: resolvedStage.pipeline_id, stage_id: resolvedStage.id };
+}
+
+export const pipelineParam = z.union([z.number(), z.string()]).describe("Pipeline ID or name");
+export const stageParam = z.union([z.number(), z.string()]).describe("Stage ID or name");
@@ -0,0 +1,133 @@
+// Predefined prompts for common questions about the Pipedrive account
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+export function registerPrompts(server: McpServer): void {
+  // Prompt for getting all deals
+  server.prompt(
+    "list-all-deals",
+    "List all deals in Pipedrive",
+    {},
+    () => ({
+      messages: [{
+        role: "user",
+        content: {
+          type: "text",
+          text: "Please list all deals in my Pipedrive account, showing their title, value, status, and stage."
+        }
+      }]
+    })
+  );
+
+  // Prompt for getting all persons
+  server.prompt(
+    "list-all-persons",
+    "List all persons in Pipedrive",
+    {},
+    () => ({
+      messages: [{
+        role: "user",
+        content: {
+          type: "text",
+          text: "Please list all persons in my Pipedrive account, showing their name, email, phone, and organization."
+        }
+      }]
+    })
+  );
+
+  // Prompt for getting all pipelines
+  server.prompt(
+    "list-all-pipelines",
+    "List all pipelines in Pipedrive",
+    {},
+    () => ({
+      messages: [{
+        role: "user",
+        content: {
+          type: "text",
+          text: "Please list all pipelines in my Pipedrive account, showing their name and stages."
+        }
+      }]
+    })
+  );
+
+  // Prompt for analyzing deals
+  server.prompt(
+    "analyze-deals",
+    "Analyze deals by stage",
+    {},
+    () => ({
+      messages: [{
+        role: "user",
+        content: {
+          type: "text",
+          text: "Please analyze the deals in my Pipedrive account, grouping them by stage and providing total value for each stage. Use get-pipeline-conversion for the counts, values and conversion rates per stage; if the query-mirror tool is available, use it for other groupings instead of listing every deal."
+        }
+      }]
+    })
+  );
+
+  // Prompt for analyzing contacts
+  server.prompt(
+    "analyze-contacts",
+    "Analyze contacts by organization",
+    {},
+    () => ({
+      messages: [{
+        role: "user",
+        content: {
+          type: "text",
+          text: "Please analyze the persons in my Pipedrive account, grouping them by organization and providing a count for each organization. If the query-mirror tool is available, use it to count the persons instead of listing them all."
+        }
+      }]
+    })
+  );
+
+  // Prompt for analyzing leads
+  server.prompt(
+    "analyze-leads",
+    "Analyze leads by label, source and archived state",
+    {},
+    () => ({
+      messages: [{
+        role: "user",
+        content: {
+          type: "text",
+          text: "Please list all leads in my Pipedrive account, including archived ones, and group them by label, source and archived state."
+        }
+      }]
+    })
+  );
+
+  // Prompt for pipeline comparison
+  server.prompt(
+    "compare-pipelines",
+    "Compare different pipelines and their stages",
+    {},
+    () => ({
+      messages: [{
+        role: "user",
+        content: {
+          type: "text",
+          text: "Please compare the pipelines in my Pipedrive account: show the stages in each pipeline, and use get-pipeline-conversion, get-stage-velocity and get-deal-forecast to compare their conversion rates, win rates, time in stage and weighted forecast."
+        }
+      }]
+    })
+  );
+
+  // Prompt for finding high-value deals
+  server.prompt(
+    "find-high-value-deals",
+    "Find high-value deals",
+    {},
+    () => ({
+      messages: [{
+        role: "user",
+        content: {
+          type: "text",
+          text: "Please identify the highest value deals in my Pipedrive account and provide information about which stage they're in and which person or organization they're associated with."
+        }
+      }]
+    })
+  );
+}
@@ -0,0 +1,255 @@
+// Pipedrive records exposed as MCP resources, with subscriptions for change notifications
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ReadResourceResult, SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { pipedriveRequest, PipedriveRequest } from "./api.js";
+import { currentCredentials, PipedriveCredentials, withCredentials } from "./credentials.js";
+import { CustomFieldResolver, FieldEntity } from "./customFields.js";
+import { logger } from "./logger.js";
+
+export type ResourceEntity = 'deal' | 'person' | 'organization' | 'pipeline';
+
+interface ResourceDefinition {
+  // Collection path of the v2 API
+  path: string;
+  description: string;
+  fieldEntity?: FieldEntity;
+  // Name shown to clients when browsing
+  label: (record: any) => string;
+}
+
+const RESOURCE_DEFINITIONS: Record<ResourceEntity, ResourceDefinition> = {
+  deal: {
+    path: '/v2/deals',
+    description: "A Pipedrive deal including resolved custom fields",
+    fieldEntity: 'deal',
+    label: deal => deal.title || `Deal ${deal.id}`
+  },
+  person: {
+    path: '/v2/persons',
+    description: "A Pipedrive person including resolved custom fields",
+    fieldEntity: 'person',
+    label: person => person.name || `Person ${person.id}`
+  },
+  organization: {
+    path: '/v2/organizations',
+    description: "A Pipedrive organization including resolved custom fields",
+    fieldEntity: 'organization',
+    label: organization => organization.name || `Organization ${organization.id}`
+  },
+  pipeline: {
+    path: '/v2/pipelines',
+    description: "A Pipedrive pipeline with its stages",
+    label: pipeline => pipeline.name || `Pipeline ${pipeline.id}`
+  }
+};
+
+// How many recently updated records each template lists
+const RECENT_ITEMS_LIMIT = 20;
+
+const RESOURCE_URI = /^pipedrive:\/\/(deal|person|organization|pipeline)\/(\d+)$/;
+
+// Maps API paths such as `/v2/deals/42/products` to the record they change
+const RECORD_PATH = /^\/v[12]\/(deals|persons|organizations|pipelines)\/(\d+)(\/|$)/;
+const ENTITY_BY_COLLECTION: Record<string, ResourceEntity> = {
+  deals: 'deal',
+  persons: 'person',
+  organizations: 'organization',
+  pipelines: 'pipeline'
+};
+
+export function resourceUri(entity: ResourceEntity, id: number | string): string {
+  return `pipedrive://${entity}/${id}`;
+}
+
+function parseResourceUri(uri: string): { entity: ResourceEntity; id: number } | null {
+  const match = RESOURCE_URI.exec(uri);
+  return match ? { entity: match[1] as ResourceEntity, id: Number(match[2]) } : null;
+}
+
+/**
+ * Registers resource templates for deals, persons, organizations and
+ * pipelines, and handles resource subscriptions. Subscribed records are
+ * re-read periodically and clients are notified when their content changes;
+ * `notifyChanged`, `notifyAccountChange` and `notifyRequest` let other parts
+ * of the server report changes directly.
+ */
+export function registerResources(server: McpServer, customFields: CustomFieldResolver, options: { pollIntervalMs: number }) {
+  async function readRecord(entity: ResourceEntity, id: number): Promise<string> {
+    const definition = RESOURCE_DEFINITIONS[entity];
+    const response = await pipedriveRequest({ method: 'GET', path: `${definition.path}/${id}` });
+    let record = response.data;
+
+    if (definition.fieldEntity) {
+      record = await customFields.resolveRecord(definition.fieldEntity, record);
+    }
+    if (entity === 'pipeline') {
+      const stages = await pipedriveRequest({ method: 'GET', path: '/v2/stages', query: { pipeline_id: id, limit: 500 } });
+      record = { ...record, stages: stages.data || [] };
+    }
+
+    return JSON.stringify(record, null, 2);
+  }
+
+  async function readResource(uri: URL): Promise<ReadResourceResult> {
+    const parsed = parseResourceUri(uri.toString());
+    if (!parsed) {
+      throw new Error(`Unsupported resource URI ${uri}`);
+    }
+    return {
+      contents: [{
+        uri: uri.toString(),
+        mimeType: "application/json",
+        text: await readRecord(parsed.entity, parsed.id)
+      }]
+    };
+  }
+
+  for (const [entity, definition] of Object.entries(RESOURCE_DEFINITIONS) as [ResourceEntity, ResourceDefinition][]) {
+    const template = new ResourceTemplate(`pipedrive://${entity}/{id}`, {
+      // Browse the most recently updated records
+      list: async () => {
+        const response = await pipedriveRequest({
+          method: 'GET',
+          path: definition.path,
+          query: entity === 'pipeline' ? {} : { sort_by: 'update_time', sort_direction: 'desc', limit: RECENT_ITEMS_LIMIT }
+        });
+        return {
+          resources: (response.data || []).map((record: any) => ({
+            uri: resourceUri(entity, record.id),
+            name: definition.label(record),
+            mimeType: "application/json"
+          }))
+        };
+      }
+    });
+
+    server.resource(entity, template, { description: definition.description, mimeType: "application/json" }, readResource);
+  }
+
+  interface Subscription {
+    // Last content seen, to detect changes
+    content: string | null;
+    // Credentials the URI was subscribed with, since the same ID in another account is a different record
+    credentials: PipedriveCredentials;
+  }
+
+  const subscriptions = new Map<string, Subscription>();
+  let poller: NodeJS.Timeout | null = null;
+  // Whether a pass over the subscriptions is running; the next one is only scheduled when it ends
+  let polling = false;
+
+  async function notifyChanged(entity: ResourceEntity, id: number | string): Promise<void> {
+    const uri = resourceUri(entity, id);
+    const subscription = subscriptions.get(uri);
+    if (!subscription) {
+      return;
+    }
+    subscription.content = null;
+    await server.server.sendResourceUpdated({ uri });
+  }
+
+  // Notify subscribers of a record changed in the account with the given credentials
+  function notifyAccountChange(credentialsId: string, entity: ResourceEntity, id: number | string): void {
+    // The same ID in another account is a different record
+    if (subscriptions.get(resourceUri(entity, id))?.credentials.id !== credentialsId) {
+      return;
+    }
+    notifyChanged(entity, id).catch(error =>
+      logger.error("Error notifying resource subscribers", { uri: resourceUri(entity, id), error })
+    );
+  }
+
+  // Notify subscribers of the record a write request changed, if any
+  function notifyRequest(request: PipedriveRequest): void {
+    const match = RECORD_PATH.exec(request.path);
+    if (match) {
+      notifyAccountChange(currentCredentials().id, ENTITY_BY_COLLECTION[match[1]], match[2]);
+    }
+  }
+
+  // Re-read a subscribed URI with the credentials it was subscribed with and notify if it changed
+  async function pollSubscription(uri: string, subscription: Subscription): Promise<void> {
+    const parsed = parseResourceUri(uri);
+    if (!parsed) {
+      return;
+    }
+    try {
+      const previous = subscription.content;
+      const current = await withCredentials(subscription.credentials, () => readRecord(parsed.entity, parsed.id));
+      // The URI may have been unsubscribed, or subscribed again, while reading
+      if (subscriptions.get(uri) !== subscription) {
+        return;
+      }
+      subscription.content = current;
+      if (previous !== null && previous !== current) {
+        await server.server.sendResourceUpdated({ uri });
+      }
+    } catch (error) {
+      logger.error("Error checking subscribed resource", { uri, error });
+    }
+  }
+
+  async function pollSubscriptions(): Promise<void> {
+    for (const [uri, subscription] of subscriptions) {
+      await pollSubscription(uri, subscription);
+    }
+  }
+
+  async function runPoll(): Promise<void> {
+    poller = null;
+    polling = true;
+    try {
+      await pollSubscriptions();
+    } finally {
+      polling = false;
+    }
+    updatePoller();
+  }
+
+  // Schedules the next pass a poll interval after the previous one finished, so slow passes never overlap
+  function updatePoller(): void {
+    if (subscriptions.size > 0 && !poller && !polling) {
+      poller = setTimeout(() => void runPoll(), options.pollIntervalMs);
+      poller.unref();
+    } else if (subscriptions.size === 0 && poller) {
+      clearTimeout(poller);
+      poller = null;
+    }
+  }
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    const { uri } = request.params;
+    if (!parseResourceUri(uri)) {
+      throw new Error(`Unsupported resource URI ${uri}`);
+    }
+    if (!subscriptions.has(uri)) {
+      const subscription: Subscription = { content: null, credentials: currentCredentials() };
+      subscriptions.set(uri, subscription);
+      // Record the current content so the first poll has something to compare with
+      void pollSubscription(uri, subscription);
+    }
+    updatePoller();
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    updatePoller();
+    return {};
+  });
+
+  return {
+    notifyChanged,
+    notifyAccountChange,
+    notifyRequest,
+    close: () => {
+      subscriptions.clear();
+      updatePoller();
+    }
+  };
+}
+
+export type ResourceRegistry = ReturnType<typeof registerResources>;
@@ -0,0 +1,119 @@
+// Construction of a fully configured MCP server instance
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { addAccountArgument, listAccounts } from "./accounts.js";
+import { invalidateForRequest } from "./cache.js";
+import { customFields } from "./clients.js";
+import { createToolGuard, loadGuardOptions } from "./guard.js";
+import { attachLogging } from "./logger.js";
+import { markMirrorStale, mirrorEnabled } from "./mirror.js";
+import { registerPrompts } from "./prompts.js";
+import { registerResources } from "./resources.js";
+import { registerAccountTools } from "./tools/accounts.js";
+import { registerActivityTools } from "./tools/activities.js";
+import { registerAnalyticsTools } from "./tools/analytics.js";
+import { registerCacheTools } from "./tools/cache.js";
+import { registerDealContextTools } from "./tools/dealContext.js";
+import { registerDealTools } from "./tools/deals.js";
+import { registerEventTools } from "./tools/events.js";
+import { registerLeadTools } from "./tools/leads.js";
+import { registerMirrorTools } from "./tools/mirror.js";
+import { registerNoteTools } from "./tools/notes.js";
+import { registerOrganizationTools } from "./tools/organizations.js";
+import { registerPersonTools } from "./tools/persons.js";
+import { registerPipelineTools } from "./tools/pipelines.js";
+import { registerProductTools } from "./tools/products.js";
+import { registerResultTools } from "./tools/results.js";
+import { registerSearchTools } from "./tools/search.js";
+import { registerUserTools } from "./tools/users.js";
+import { onWebhookEvent, webhooksEnabled } from "./webhooks.js";
+
+/**
+ * Creates an MCP server with every tool, resource and prompt registered.
+ * The stdio transport uses a single instance; the HTTP transport creates
+ * one per client session.
+ */
+export function createServer() {
+  const server = new McpServer({
+    name: "pipedrive-mcp-server",
+    version: "1.0.0",
+    capabilities: {
+      resources: {},
+      tools: {},
+      prompts: {}
+    }
+  });
+
+  // Every tool that changes data is registered through the guard
+  const guard = createToolGuard(server, loadGuardOptions(process.env));
+
+  // === TOOLS ===
+
+  // Tool calls get a request ID, and what they log also goes to the client
+  attachLogging(server);
+
+  registerAccountTools(server);
+  // Tools registered after this take an optional `account` argument
+  addAccountArgument(server);
+
+  registerDealTools(server, guard);
+  registerDealContextTools(server);
+  registerPersonTools(server);
+  registerOrganizationTools(server);
+  registerPipelineTools(server);
+  registerUserTools(server);
+  registerAnalyticsTools(server);
+  registerSearchTools(server);
+  registerResultTools(server);
+  registerCacheTools(server);
+  registerActivityTools(server, guard);
+  registerNoteTools(server, guard);
+  registerLeadTools(server, guard);
+  registerProductTools(server, guard);
+  // The local mirror is opt-in through PIPEDRIVE_MIRROR_FILE
+  if (mirrorEnabled()) {
+    registerMirrorTools(server);
+  }
+  // Events only arrive while a webhook receiver runs
+  if (webhooksEnabled()) {
+    registerEventTools(server);
+  }
+
+  // === RESOURCES ===
+
+  // Deals, persons, organizations and pipelines as pipedrive://<entity>/{id} resources
+  const resources = registerResources(server, customFields, {
+    pollIntervalMs: (Number(process.env.PIPEDRIVE_RESOURCE_POLL_SECONDS) || 60) * 1000
+  });
+
+  // Writes made through this server notify subscribers right away
+  guard.onMutation(request => resources.notifyRequest(request));
+  // and drop cached reference data they may have changed
+  guard.onMutation(request => invalidateForRequest(request));
+  // and make the next mirror query sync the records they touched
+  guard.onMutation(request => markMirrorStale(request));
+  // Changes Pipedrive reports through webhooks notify subscribers too
+  const stopWebhookNotifications = onWebhookEvent(event => {
+    const account = listAccounts().accounts.find(candidate => candidate.name === event.account);
+    if (account && event.entity !== 'activity' && event.entity_id !== null) {
+      resources.notifyAccountChange(account.credentials.id, event.entity, event.entity_id);
+    }
+  });
+
+  // === PROMPTS ===
+
+  registerPrompts(server);
+
+  return {
+    server,
+    guard,
+    resources,
+    close: async () => {
+      stopWebhookNotifications();
+      resources.close();
+      await server.close();
+    }
+  };
+}
+
+export type ServerInstance = ReturnType<typeof createServer>;
@@ -0,0 +1,48 @@
+// Interception of tool registrations, for behaviour every tool shares
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ZodRawShape } from "zod";
+
+export type ToolHandler = (args: any, extra: any) => unknown;
+
+export interface ToolRegistration {
+  name: string;
+  description: string;
+  paramsSchema: ZodRawShape;
+  outputSchema?: ZodRawShape;
+  handler: ToolHandler;
+}
+
+interface ToolConfig {
+  description?: string;
+  inputSchema?: ZodRawShape;
+  outputSchema?: ZodRawShape;
+}
+
+/**
+ * Passes every tool registered on `server` from now on through `wrap`, which
+ * may extend its parameters or wrap its handler. Wrappers installed later run
+ * first when a tool is called. Every tool in this server is registered as
+ * registerTool(name, { description, inputSchema, outputSchema }, handler).
+ */
+export function wrapToolRegistration(server: McpServer, wrap: (tool: ToolRegistration) => ToolRegistration): void {
+  const registerTool = server.registerTool.bind(server) as (...args: unknown[]) => unknown;
+  (server as any).registerTool = (name: string, config: ToolConfig, handler: ToolHandler) => {
+    if (typeof config?.description !== 'string' || typeof handler !== 'function') {
+      throw new Error(`Tool ${name} must be registered with a description and a handler`);
+    }
+    const wrapped = wrap({
+      name,
+      description: config.description,
+      paramsSchema: config.inputSchema ?? {},
+      outputSchema: config.outputSchema,
+      handler
+    });
+    return registerTool(wrapped.name, {
+      ...config,
+      description: wrapped.description,
+      inputSchema: wrapped.paramsSchema,
+      outputSchema: wrapped.outputSchema
+    }, wrapped.handler);
+  };
+}
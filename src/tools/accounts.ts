@@ -0,0 +1,61 @@
+// Account tools: list the Pipedrive accounts this server can act as
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { listAccounts } from "../accounts.js";
+import { pipedriveRequest } from "../api.js";
+import { withCredentials } from "../credentials.js";
+import { errorResult, toPipedriveError } from "../errors.js";
+import { logger } from "../logger.js";
+import { structuredResult } from "../output.js";
+
+export function registerAccountTools(server: McpServer): void {
+  // List configured accounts
+  server.registerTool(
+    "list-accounts",
+    {
+      description: "List the Pipedrive accounts configured on this server. Pass one of the names as the account argument of other tools to act on that account.",
+      inputSchema: {
+        check: z.boolean().optional().describe("Also verify each account's credentials and return the user and company they belong to")
+      },
+      outputSchema: {
+        default_account: z.string().nullable(),
+        accounts: z.array(z.object({
+          name: z.string(),
+          company_domain: z.string().nullable(),
+          default: z.boolean(),
+          ok: z.boolean().optional().describe("Whether the credentials work; only with check"),
+          user: z.string().nullish(),
+          company: z.string().nullish(),
+          error: z.object({}).passthrough().optional()
+        }))
+      }
+    },
+    async ({ check }) => {
+      try {
+        const { accounts, defaultAccount } = listAccounts();
+        const results = await Promise.all(accounts.map(async account => {
+          const summary = {
+            name: account.name,
+            company_domain: account.companyDomain,
+            default: account.name === defaultAccount
+          };
+          if (!check) {
+            return summary;
+          }
+          try {
+            const me = await withCredentials(account.credentials, () => pipedriveRequest({ method: 'GET', path: '/v1/users/me' }));
+            return { ...summary, ok: true, user: me.data?.name ?? null, company: me.data?.company_name ?? null };
+          } catch (error) {
+            return { ...summary, ok: false, error: toPipedriveError(error).toJSON() };
+          }
+        }));
+
+        return structuredResult(`${results.length} accounts`, { default_account: defaultAccount, accounts: results });
+      } catch (error) {
+        logger.error("Error listing accounts", { error });
+        return errorResult("listing accounts", error);
+      }
+    }
+  );
+}
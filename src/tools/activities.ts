@@ -0,0 +1,239 @@
+// Activity tools: list, fetch, create, complete and reschedule activities
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { pipedriveRequest, withoutUndefined } from "../api.js";
+import { cached } from "../cache.js";
+import { errorResult } from "../errors.js";
+import { ToolGuard } from "../guard.js";
+import { decodeCursor, describePage, inDateRange, stoppedScanMessage } from "../listQuery.js";
+import { logger } from "../logger.js";
+import { activitySchema, activityTypeSchema, pageShape, pageSummary, structuredResult } from "../output.js";
+import { collectCursorPages, MAX_PAGE_SIZE, MAX_SCAN_PAGES } from "../pagination.js";
+
+interface ActivityType {
+  id: number;
+  name: string;
+  key_string: string;
+  active_flag: boolean;
+}
+
+function fetchActivityTypes(): Promise<ActivityType[]> {
+  return cached('activity_types', 'all', async () => {
+    const response = await pipedriveRequest({ method: 'GET', path: '/v1/activityTypes' });
+    return response.data || [];
+  });
+}
+
+// Resolve an activity type given its name (e.g. "Call") or key (e.g. "call")
+async function resolveActivityType(type: string): Promise<ActivityType> {
+  const types = await fetchActivityTypes();
+  const wanted = type.trim().toLowerCase();
+  const found = types.find(t => t.key_string.toLowerCase() === wanted) ||
+    types.find(t => t.name.trim().toLowerCase() === wanted);
+
+  if (!found) {
+    const available = types.filter(t => t.active_flag).map(t => `${t.name} (${t.key_string})`).join(', ');
+    throw new Error(`Activity type "${type}" not found. Available types: ${available}`);
+  }
+
+  return found;
+}
+
+async function fetchActivitySnapshot(activityId: number): Promise<Record<string, unknown>> {
+  const response = await pipedriveRequest({ method: 'GET', path: `/v2/activities/${activityId}` });
+  return response.data;
+}
+
+const dateParam = (description: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format").describe(description);
+const timeParam = (description: string) => z.string().regex(/^\d{2}:\d{2}$/, "Expected a time in HH:MM format").describe(description);
+
+export function registerActivityTools(server: McpServer, guard: ToolGuard): void {
+  // List activity types
+  server.registerTool(
+    "get-activity-types",
+    {
+      description: "Get the activity types configured in Pipedrive (e.g. Call, Meeting, Task)",
+      inputSchema: {},
+      outputSchema: { activity_types: z.array(activityTypeSchema) }
+    },
+    async () => {
+      try {
+        const types = await fetchActivityTypes();
+        return structuredResult(`${types.length} activity types`, {
+          activity_types: types.map(({ id, name, key_string, active_flag }) => ({ id, name, key_string, active_flag }))
+        });
+      } catch (error) {
+        logger.error("Error fetching activity types", { error });
+        return errorResult("fetching activity types", error);
+      }
+    }
+  );
+
+  // List activities with filters
+  server.registerTool(
+    "get-activities",
+    {
+      description: `Get activities from Pipedrive, filtered by owner, type, done state, due date range or linked deal/person/organization/lead. The type and due date filters are applied to the listing page by page, so with either one a call scans at most ${MAX_SCAN_PAGES * MAX_PAGE_SIZE} activities and returns a next_cursor to scan further; narrow with owner_id or a linked record to scan less.`,
+      inputSchema: {
+        owner_id: z.number().optional().describe("Only activities assigned to this user ID"),
+        type: z.string().optional().describe("Only activities of this type, by name or key (e.g. \"Call\" or \"meeting\")"),
+        done: z.boolean().optional().describe("true for completed activities, false for open ones (default: both)"),
+        due_date_from: dateParam("Only activities due on or after this date (YYYY-MM-DD)").optional(),
+        due_date_to: dateParam("Only activities due on or before this date (YYYY-MM-DD)").optional(),
+        deal_id: z.number().optional().describe("Only activities linked to this deal ID"),
+        person_id: z.number().optional().describe("Only activities linked to this person ID"),
+        org_id: z.number().optional().describe("Only activities linked to this organization ID"),
+        lead_id: z.string().optional().describe("Only activities linked to this lead UUID"),
+        limit: z.number().int().min(1).optional().describe("Return at most this many activities and a next_cursor for the rest"),
+        cursor: z.string().optional().describe("next_cursor from a previous call with the same filters, to continue where it stopped")
+      },
+      outputSchema: {
+        ...pageShape,
+        activities: z.array(activitySchema)
+      }
+    },
+    async ({ owner_id, type, done, due_date_from, due_date_to, deal_id, person_id, org_id, lead_id, limit, cursor }) => {
+      try {
+        const position = cursor ? decodeCursor(cursor) : undefined;
+        if (position && position.mode !== 'api') {
+          throw new Error("This cursor does not belong to get-activities");
+        }
+
+        const typeKey = type ? (await resolveActivityType(type)).key_string : undefined;
+        // The API filters by owner, done state and linked record; type and due date are matched here
+        const filtersLocally = typeKey !== undefined || due_date_from !== undefined || due_date_to !== undefined;
+
+        const result = await collectCursorPages({
+          path: '/v2/activities',
+          query: { owner_id, done, deal_id, person_id, org_id, lead_id, sort_by: 'due_date' },
+          start: position,
+          limit,
+          maxPages: filtersLocally ? MAX_SCAN_PAGES : undefined,
+          accept: activity =>
+            (!typeKey || activity.type === typeKey) && inDateRange(activity.due_date, due_date_from, due_date_to)
+              ? activity
+              : null
+        });
+
+        const stopped = result.stoppedEarly ? stoppedScanMessage(result.items.length, 'activities', result.pages) : null;
+        return structuredResult(stopped ?? pageSummary(result.items.length, 'activities', result.next !== null), {
+          ...describePage(result.items.length, result.next, 'activities', cursor !== undefined),
+          ...(stopped ? { message: stopped } : {}),
+          retries: result.retries,
+          activities: result.items
+        });
+      } catch (error) {
+        logger.error("Error fetching activities", { error });
+        return errorResult("fetching activities", error);
+      }
+    }
+  );
+
+  // Get activity by ID
+  server.registerTool(
+    "get-activity",
+    {
+      description: "Get a specific activity by ID",
+      inputSchema: {
+        activityId: z.number().describe("Pipedrive activity ID")
+      },
+      outputSchema: { activity: activitySchema }
+    },
+    async ({ activityId }) => {
+      try {
+        const activity = await fetchActivitySnapshot(activityId);
+        return structuredResult(`Activity ${activityId}: ${activity.subject}`, { activity });
+      } catch (error) {
+        logger.error(`Error fetching activity ${activityId}`, { error });
+        return errorResult(`fetching activity ${activityId}`, error);
+      }
+    }
+  );
+
+  // Create an activity
+  guard.mutatingTool(
+    "create-activity",
+    "Create an activity (call, meeting, task, ...) and optionally link it to a deal, person, organization or lead. The type can be given by name or key.",
+    {
+      subject: z.string().describe("Activity subject"),
+      type: z.string().describe("Activity type by name or key, e.g. \"Meeting\" or \"call\""),
+      due_date: dateParam("Due date (YYYY-MM-DD)").optional(),
+      due_time: timeParam("Due time in UTC (HH:MM)").optional(),
+      duration: timeParam("Duration (HH:MM)").optional(),
+      owner_id: z.number().optional().describe("ID of the user the activity is assigned to (default: the token owner)"),
+      deal_id: z.number().optional().describe("ID of the deal to link the activity to"),
+      person_id: z.number().optional().describe("ID of the person to link the activity to"),
+      org_id: z.number().optional().describe("ID of the organization to link the activity to"),
+      lead_id: z.string().optional().describe("UUID of the lead to link the activity to"),
+      note: z.string().optional().describe("Note attached to the activity (HTML allowed)"),
+      done: z.boolean().optional().describe("Create the activity as already completed, e.g. to log a past call")
+    },
+    {
+      action: ({ subject }) => `creating activity "${subject}"`,
+      output: { activity: activitySchema },
+      plan: async ({ type, person_id, ...fields }) => {
+        const activityType = await resolveActivityType(type);
+        return {
+          request: {
+            method: 'POST',
+            path: '/v2/activities',
+            body: {
+              ...withoutUndefined(fields),
+              type: activityType.key_string,
+              ...(person_id === undefined ? {} : { participants: [{ person_id, primary: true }] })
+            }
+          },
+          present: response => ({ activity: response.data })
+        };
+      }
+    }
+  );
+
+  // Mark an activity as done
+  guard.mutatingTool(
+    "complete-activity",
+    "Mark an activity as done",
+    {
+      activityId: z.number().describe("Pipedrive activity ID")
+    },
+    {
+      action: ({ activityId }) => `completing activity ${activityId}`,
+      output: { activity: activitySchema },
+      plan: async ({ activityId }) => ({
+        request: {
+          method: 'PATCH',
+          path: `/v2/activities/${activityId}`,
+          body: { done: true }
+        },
+        before: () => fetchActivitySnapshot(activityId),
+        present: response => ({ activity: response.data })
+      })
+    }
+  );
+
+  // Move an activity to another date or time
+  guard.mutatingTool(
+    "reschedule-activity",
+    "Move an activity to another due date and/or time",
+    {
+      activityId: z.number().describe("Pipedrive activity ID"),
+      due_date: dateParam("New due date (YYYY-MM-DD)"),
+      due_time: timeParam("New due time in UTC (HH:MM)").optional(),
+      duration: timeParam("New duration (HH:MM)").optional()
+    },
+    {
+      action: ({ activityId }) => `rescheduling activity ${activityId}`,
+      output: { activity: activitySchema },
+      plan: async ({ activityId, ...schedule }) => ({
+        request: {
+          method: 'PATCH',
+          path: `/v2/activities/${activityId}`,
+          body: withoutUndefined(schedule)
+        },
+        before: () => fetchActivitySnapshot(activityId),
+        present: response => ({ activity: response.data })
+      })
+    }
+  );
+}
@@ -0,0 +1,241 @@
+// Analytics tools: stage conversion and win rate, time in stage, and weighted forecast per pipeline
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { AnalyticsStage, conversionStats, orderedStages, StageStay, stageStays, stageVelocity, weightedForecast } from "../analytics.js";
+import { createRequestStats, RequestStats } from "../api.js";
+import { errorResult } from "../errors.js";
+import { inDateRange } from "../listQuery.js";
+import { logger } from "../logger.js";
+import { pageShape, structuredResult } from "../output.js";
+import { collectCursorPages } from "../pagination.js";
+import { fetchPipelines, fetchStagesWithPipelineNames, pipelineParam, resolvePipeline } from "../pipelines.js";
+
+// Amounts per currency; values in different currencies are not converted
+const amounts = z.record(z.number());
+
+const pipelineHeader = {
+  pipeline_id: z.number(),
+  pipeline_name: z.string()
+};
+
+const analyticsFilters = {
+  pipeline: pipelineParam.optional().describe("Pipeline ID or name (default: every pipeline)"),
+  owner_id: z.number().optional().describe("Only deals owned by this user ID"),
+  add_time_from: z.string().optional().describe("Only deals added on or after this date (YYYY-MM-DD or ISO 8601)"),
+  add_time_to: z.string().optional().describe("Only deals added on or before this date (YYYY-MM-DD or ISO 8601)")
+};
+
+interface DealScope {
+  pipeline?: string | number;
+  owner_id?: number;
+  status?: 'open';
+  accept: (deal: any) => boolean;
+}
+
+// The pipelines in scope with their ordered stages, and their deals matching the filters
+async function loadPipelineDeals(scope: DealScope, stats: RequestStats) {
+  const [pipelines, stages] = await Promise.all([fetchPipelines(stats), fetchStagesWithPipelineNames(stats)]);
+  const selected = scope.pipeline === undefined ? pipelines : [await resolvePipeline(scope.pipeline)];
+  const result = await collectCursorPages({
+    path: '/v2/deals',
+    query: {
+      pipeline_id: scope.pipeline === undefined ? undefined : selected[0].id,
+      owner_id: scope.owner_id,
+      status: scope.status
+    },
+    accept: deal => scope.accept(deal) ? deal : null,
+    stats
+  });
+  logger.debug("Fetched deals for analytics", { count: result.items.length, pages: result.pages, retries: result.retries });
+
+  return selected.map((pipeline: { id: number; name: string }) => ({
+    id: pipeline.id,
+    name: pipeline.name,
+    stages: orderedStages(stages as AnalyticsStage[], pipeline.id),
+    deals: result.items.filter(deal => deal.pipeline_id === pipeline.id)
+  }));
+}
+
+export function registerAnalyticsTools(server: McpServer): void {
+  // Deal counts and values per stage, stage conversion and win rate
+  server.registerTool(
+    "get-pipeline-conversion",
+    {
+      description: "Per pipeline: open deal count and value per stage, how many deals reached each stage, stage-to-stage conversion rates and the win rate, computed over every matching deal. A deal counts as having reached every stage up to the one it is in or was lost in; won deals reached all stages.",
+      inputSchema: analyticsFilters,
+      outputSchema: {
+        retries: pageShape.retries,
+        pipelines: z.array(z.object({
+          ...pipelineHeader,
+          deal_count: z.number(),
+          open_count: z.number(),
+          won_count: z.number(),
+          lost_count: z.number(),
+          win_rate: z.number().nullable().describe("won / (won + lost), null without closed deals"),
+          open_value_by_currency: amounts,
+          won_value_by_currency: amounts,
+          stages: z.array(z.object({
+            stage_id: z.number(),
+            stage_name: z.string(),
+            open_count: z.number(),
+            open_value_by_currency: amounts,
+            lost_count: z.number(),
+            reached_count: z.number(),
+            conversion_to_next: z.number().nullable().describe("Share of deals that reached this stage and went on to the next one; for the last stage, to won")
+          }))
+        }))
+      }
+    },
+    async ({ pipeline, owner_id, add_time_from, add_time_to }) => {
+      try {
+        const stats = createRequestStats();
+        const scoped = await loadPipelineDeals({
+          pipeline,
+          owner_id,
+          accept: deal => inDateRange(deal.add_time, add_time_from, add_time_to)
+        }, stats);
+        const pipelines = scoped.map(({ id, name, stages, deals }) => ({
+          pipeline_id: id,
+          pipeline_name: name,
+          ...conversionStats(stages, deals)
+        }));
+        const summary = pipelines
+          .map(entry => `${entry.pipeline_name}: ${entry.deal_count} deals, win rate ${entry.win_rate === null ? 'n/a' : `${Math.round(entry.win_rate * 100)}%`}`)
+          .join('; ');
+        return structuredResult(summary || "No pipelines", { retries: stats.retries, pipelines });
+      } catch (error) {
+        logger.error("Error computing pipeline conversion", { error });
+        return errorResult("computing pipeline conversion", error);
+      }
+    }
+  );
+
+  // Average time deals spend in each stage, from their changelogs
+  server.registerTool(
+    "get-stage-velocity",
+    {
+      description: "Per pipeline: average and median days deals spent in each stage, from the stage changes in their change history (as get-deal-history shows it), and how long open deals have been in their current stage. Reads one change history per deal, so at most max_deals of the most recently updated matching deals are analyzed.",
+      inputSchema: {
+        ...analyticsFilters,
+        max_deals: z.number().int().min(1).max(500).optional().describe("Analyze at most this many deals, the most recently updated first (default 100)")
+      },
+      outputSchema: {
+        retries: pageShape.retries,
+        matching_deals: z.number(),
+        analyzed_deals: z.number(),
+        pipelines: z.array(z.object({
+          ...pipelineHeader,
+          analyzed_deals: z.number(),
+          stages: z.array(z.object({
+            stage_id: z.number(),
+            stage_name: z.string(),
+            completed_stays: z.number().describe("Times a deal left this stage, or was won or lost in it"),
+            average_days: z.number().nullable(),
+            median_days: z.number().nullable(),
+            open_deals_in_stage: z.number(),
+            average_days_so_far: z.number().nullable().describe("How long the open deals in this stage have been in it, on average")
+          }))
+        }))
+      }
+    },
+    async ({ pipeline, owner_id, add_time_from, add_time_to, max_deals }) => {
+      try {
+        const stats = createRequestStats();
+        const scoped = await loadPipelineDeals({
+          pipeline,
+          owner_id,
+          accept: deal => inDateRange(deal.add_time, add_time_from, add_time_to)
+        }, stats);
+        const matching = scoped.flatMap(entry => entry.deals);
+        const analyzed = new Set(
+          [...matching]
+            .sort((a, b) => String(b.update_time ?? '').localeCompare(String(a.update_time ?? '')))
+            .slice(0, max_deals ?? 100)
+            .map(deal => deal.id)
+        );
+
+        const now = Date.now();
+        const stays = new Map<number, StageStay[]>();
+        // Requests share the client's concurrency cap, so the changelogs can be requested together
+        await Promise.all(matching.filter(deal => analyzed.has(deal.id)).map(async deal => {
+          const changelog = await collectCursorPages({ path: `/v1/deals/${deal.id}/changelog`, stats });
+          stays.set(deal.id, stageStays(deal, changelog.items, now));
+        }));
+
+        const pipelines = scoped.map(({ id, name, stages, deals }) => {
+          const ids = deals.map(deal => deal.id).filter(dealId => stays.has(dealId));
+          return {
+            pipeline_id: id,
+            pipeline_name: name,
+            analyzed_deals: ids.length,
+            stages: stageVelocity(stages, ids.flatMap(dealId => stays.get(dealId)!))
+          };
+        });
+        return structuredResult(
+          `Analyzed the stage history of ${analyzed.size} of ${matching.length} matching deals`,
+          { retries: stats.retries, matching_deals: matching.length, analyzed_deals: analyzed.size, pipelines }
+        );
+      } catch (error) {
+        logger.error("Error computing stage velocity", { error });
+        return errorResult("computing stage velocity", error);
+      }
+    }
+  );
+
+  // Open deal value by expected close month, weighted by probability
+  server.registerTool(
+    "get-deal-forecast",
+    {
+      description: "Per pipeline: open deals by expected close month, with their total value and their value weighted by the deal's probability (or its stage's probability when the deal has none). Deals without an expected close date are counted separately.",
+      inputSchema: {
+        pipeline: analyticsFilters.pipeline,
+        owner_id: analyticsFilters.owner_id,
+        expected_close_date_from: z.string().optional().describe("Only deals expected to close on or after this date (YYYY-MM-DD)"),
+        expected_close_date_to: z.string().optional().describe("Only deals expected to close on or before this date (YYYY-MM-DD)")
+      },
+      outputSchema: {
+        retries: pageShape.retries,
+        pipelines: z.array(z.object({
+          ...pipelineHeader,
+          months: z.array(z.object({
+            month: z.string().describe("YYYY-MM"),
+            deal_count: z.number(),
+            value_by_currency: amounts,
+            weighted_value_by_currency: amounts
+          })),
+          without_expected_close_date: z.object({
+            deal_count: z.number(),
+            value_by_currency: amounts
+          })
+        }))
+      }
+    },
+    async ({ pipeline, owner_id, expected_close_date_from, expected_close_date_to }) => {
+      try {
+        const stats = createRequestStats();
+        const dated = Boolean(expected_close_date_from || expected_close_date_to);
+        const scoped = await loadPipelineDeals({
+          pipeline,
+          owner_id,
+          status: 'open',
+          // Undated deals can't fall in a date range, so they are only kept without one
+          accept: deal => !dated || inDateRange(deal.expected_close_date, expected_close_date_from, expected_close_date_to)
+        }, stats);
+        const pipelines = scoped.map(({ id, name, stages, deals }) => ({
+          pipeline_id: id,
+          pipeline_name: name,
+          ...weightedForecast(stages, deals)
+        }));
+        const months = new Set(pipelines.flatMap(entry => entry.months.map(month => month.month)));
+        return structuredResult(
+          `Forecast of open deals over ${months.size} expected close months in ${pipelines.length} pipelines`,
+          { retries: stats.retries, pipelines }
+        );
+      } catch (error) {
+        logger.error("Error computing the deal forecast", { error });
+        return errorResult("computing the deal forecast", error);
+      }
+    }
+  );
+}
@@ -0,0 +1,38 @@
+// Cache tools: drop cached reference data so the next call fetches it fresh
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { CACHE_ENTITIES, invalidateCache } from "../cache.js";
+import { errorResult } from "../errors.js";
+import { logger } from "../logger.js";
+import { structuredResult } from "../output.js";
+
+export function registerCacheTools(server: McpServer): void {
+  // Invalidate cached reference data
+  server.registerTool(
+    "invalidate-cache",
+    {
+      description: "Drop cached field definitions, users, pipelines, stages, activity types or lead labels, e.g. after changing them in the Pipedrive web app. The next call that needs them fetches them again.",
+      inputSchema: {
+        entities: z.array(z.enum(CACHE_ENTITIES)).optional().describe("What to drop (default: everything)")
+      },
+      outputSchema: {
+        invalidated: z.array(z.enum(CACHE_ENTITIES)),
+        removed_entries: z.number()
+      }
+    },
+    async ({ entities }) => {
+      try {
+        const invalidated = entities && entities.length > 0 ? entities : [...CACHE_ENTITIES];
+        const removed = invalidateCache(invalidated);
+        return structuredResult(`Dropped ${removed} cached entries of ${invalidated.join(', ')}`, {
+          invalidated,
+          removed_entries: removed
+        });
+      } catch (error) {
+        logger.error("Error invalidating the cache", { error });
+        return errorResult("invalidating the cache", error);
+      }
+    }
+  );
+}
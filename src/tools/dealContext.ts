@@ -0,0 +1,208 @@
+// Deal context tool: a deal and everything linked to it in one call
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createRequestStats, pipedriveRequest } from "../api.js";
+import { customFields } from "../clients.js";
+import { errorResult, toPipedriveError } from "../errors.js";
+import { logger } from "../logger.js";
+import { activitySchema, dealProductSchema, dealSchema, noteSchema, organizationSchema, pageShape, personSchema, structuredResult } from "../output.js";
+import { fetchStagesWithPipelineNames } from "../pipelines.js";
+import { fetchUsers } from "../users.js";
+import { presentNote } from "./notes.js";
+
+// Default and largest number of items per section
+const SECTION_DEFAULTS = {
+  participants: 10,
+  products: 20,
+  open_activities: 10,
+  recent_activities: 5,
+  notes: 5,
+  files: 10,
+  history: 20
+};
+const MAX_SECTION_ITEMS = 100;
+
+type SectionName = keyof typeof SECTION_DEFAULTS;
+
+// Up to `limit` items; one more is requested to tell whether there were more
+async function loadSection<T>(limit: number, load: (count: number) => Promise<any[]>, present: (item: any) => T = item => item) {
+  const items: any[] = await load(limit + 1);
+  return { items: items.slice(0, limit).map(present), truncated: items.length > limit };
+}
+
+// A list section of the result; `truncated` means the record has more than were returned
+const section = <T extends z.ZodTypeAny>(item: T) => z.object({
+  items: z.array(item),
+  truncated: z.boolean()
+}).nullable().describe("null when its limit was 0 or it could not be loaded (see errors)");
+
+const openItem = z.object({}).passthrough();
+
+const sectionLimit = (name: SectionName) =>
+  z.number().int().min(0).max(MAX_SECTION_ITEMS).optional().describe(`Default ${SECTION_DEFAULTS[name]}`);
+
+function shorten(text: string | null, maxChars: number): string | null {
+  return text && text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+export function registerDealContextTools(server: McpServer): void {
+  server.registerTool(
+    "get-deal-360",
+    {
+      description: "Get a briefing on one deal in a single call: the deal (custom fields resolved) with its stage, pipeline and owner names, its person and organization, participants, products, open and recently completed activities, latest notes, file metadata and a condensed change history. Sections are loaded in parallel and each is capped by limits; a section that fails is reported in errors without failing the call.",
+      inputSchema: {
+        dealId: z.number().describe("Pipedrive deal ID"),
+        limits: z.object({
+          participants: sectionLimit('participants'),
+          products: sectionLimit('products'),
+          open_activities: sectionLimit('open_activities'),
+          recent_activities: sectionLimit('recent_activities'),
+          notes: sectionLimit('notes'),
+          files: sectionLimit('files'),
+          history: sectionLimit('history')
+        }).optional().describe("Most items to return per section; 0 skips the section"),
+        note_max_chars: z.number().int().min(50).optional().describe("Cut note bodies to this many characters (default 1000)")
+      },
+      outputSchema: {
+        retries: pageShape.retries,
+        deal: dealSchema,
+        stage: z.object({ id: z.number(), name: z.string(), pipeline_id: z.number(), pipeline_name: z.string().nullable() }).nullable(),
+        owner: z.object({ id: z.number(), name: z.string(), email: z.string().optional() }).nullable(),
+        person: personSchema.nullable(),
+        organization: organizationSchema.nullable(),
+        participants: section(openItem),
+        products: section(dealProductSchema),
+        open_activities: section(activitySchema),
+        recent_activities: section(activitySchema).describe("Completed activities, most recently updated first"),
+        notes: section(noteSchema).describe("Newest first"),
+        files: section(z.object({
+          id: z.number(),
+          name: z.string().nullish(),
+          file_type: z.string().nullish(),
+          file_size: z.number().nullish(),
+          add_time: z.string().nullish(),
+          user_id: z.number().nullish()
+        })),
+        history: section(z.object({
+          time: z.string().nullish(),
+          field: z.string(),
+          old_value: z.unknown(),
+          new_value: z.unknown(),
+          user_id: z.number().nullish()
+        })).describe("Latest field changes first; stage and owner changes show names"),
+        errors: z.record(z.string()).describe("Sections that could not be loaded, with the reason")
+      }
+    },
+    async ({ dealId, limits, note_max_chars }) => {
+      try {
+        const stats = createRequestStats();
+        const limit = (name: SectionName) => limits?.[name] ?? SECTION_DEFAULTS[name];
+        const errors: Record<string, string> = {};
+        // A section that is skipped or fails is null; failures are kept in errors
+        const optional = async <T>(name: string, enabled: boolean, load: () => Promise<T>): Promise<T | null> => {
+          if (!enabled) {
+            return null;
+          }
+          try {
+            return await load();
+          } catch (error) {
+            logger.warn(`Could not load the ${name} of deal ${dealId}`, { error });
+            errors[name] = toPipedriveError(error).message;
+            return null;
+          }
+        };
+        const get = (path: string, query?: Record<string, string | number | boolean | undefined>) =>
+          pipedriveRequest({ method: 'GET', path, query }, stats).then(response => response.data || []);
+
+        const stagesPromise = optional('stage', true, () => fetchStagesWithPipelineNames(stats));
+        const usersPromise = optional('owner', true, () => fetchUsers(stats));
+        const dealPromise = pipedriveRequest({ method: 'GET', path: `/v2/deals/${dealId}` }, stats)
+          .then(response => customFields.resolveRecord('deal', response.data));
+
+        const [
+          deal, stages, users,
+          participants, products, openActivities, recentActivities, notes, files, changelog
+        ] = await Promise.all([
+          dealPromise, stagesPromise, usersPromise,
+          optional('participants', limit('participants') > 0, () => loadSection(limit('participants'),
+            count => get(`/v1/deals/${dealId}/participants`, { start: 0, limit: count }),
+            participant => ({ id: participant.id, person: participant.person_id ?? null, add_time: participant.add_time }))),
+          optional('products', limit('products') > 0, () => loadSection(limit('products'),
+            count => get(`/v2/deals/${dealId}/products`, { limit: count }))),
+          optional('open_activities', limit('open_activities') > 0, () => loadSection(limit('open_activities'),
+            count => get('/v2/activities', { deal_id: dealId, done: false, sort_by: 'due_date', sort_direction: 'asc', limit: count }))),
+          optional('recent_activities', limit('recent_activities') > 0, () => loadSection(limit('recent_activities'),
+            count => get('/v2/activities', { deal_id: dealId, done: true, sort_by: 'update_time', sort_direction: 'desc', limit: count }))),
+          optional('notes', limit('notes') > 0, () => loadSection(limit('notes'),
+            count => get('/v1/notes', { deal_id: dealId, sort: 'add_time DESC', start: 0, limit: count }),
+            note => {
+              const presented = presentNote(note, 'markdown');
+              return { ...presented, content: shorten(presented.content, note_max_chars ?? 1000) ?? '' };
+            })),
+          optional('files', limit('files') > 0, () => loadSection(limit('files'),
+            count => get(`/v1/deals/${dealId}/files`, { start: 0, limit: count, sort: 'add_time DESC' }),
+            file => ({ id: file.id, name: file.name, file_type: file.file_type, file_size: file.file_size, add_time: file.add_time, user_id: file.user_id }))),
+          optional('history', limit('history') > 0, () => loadSection(limit('history'),
+            count => get(`/v1/deals/${dealId}/changelog`, { limit: count })))
+        ]);
+
+        const stage = stages?.find(candidate => candidate.id === deal.stage_id) ?? null;
+        const userNames = new Map((users ?? []).map(user => [user.id, user.name]));
+        const stageNames = new Map((stages ?? []).map(candidate => [candidate.id, candidate.name]));
+        const ownerId = typeof deal.owner_id === 'number' ? deal.owner_id : deal.owner_id?.value;
+        const owner = users?.find(user => user.id === ownerId) ?? null;
+
+        // Person and organization need the IDs on the deal, so they come second
+        const [person, organization] = await Promise.all([
+          optional('person', typeof deal.person_id === 'number', async () =>
+            customFields.resolveRecord('person', (await pipedriveRequest({ method: 'GET', path: `/v2/persons/${deal.person_id}` }, stats)).data)),
+          optional('organization', typeof deal.org_id === 'number', async () =>
+            customFields.resolveRecord('organization', (await pipedriveRequest({ method: 'GET', path: `/v2/organizations/${deal.org_id}` }, stats)).data))
+        ]);
+
+        // Stage and owner IDs in the history are shown as names
+        const label = (field: string, value: unknown) => {
+          const names = field === 'stage_id' ? stageNames : field === 'user_id' || field === 'owner_id' ? userNames : null;
+          const name = names?.get(Number(value));
+          return name ? `${name} (${value})` : value;
+        };
+        const history = changelog && {
+          items: changelog.items.map((change: any) => ({
+            time: change.time ?? change.log_time ?? null,
+            field: change.field_key,
+            old_value: label(change.field_key, change.old_value),
+            new_value: label(change.field_key, change.new_value),
+            user_id: change.actor_user_id ?? change.user_id ?? null
+          })),
+          truncated: changelog.truncated
+        };
+
+        const stageName = stage ? `${stage.name} in ${stage.pipeline_name ?? `pipeline ${stage.pipeline_id}`}` : `stage ${deal.stage_id}`;
+        const failed = Object.keys(errors);
+        return structuredResult(
+          `Deal ${dealId}: ${deal.title} (${deal.status}, ${stageName})${failed.length > 0 ? `; could not load ${failed.join(', ')}` : ''}`,
+          {
+            retries: stats.retries,
+            deal,
+            stage: stage && { id: stage.id, name: stage.name, pipeline_id: stage.pipeline_id, pipeline_name: stage.pipeline_name },
+            owner,
+            person,
+            organization,
+            participants,
+            products,
+            open_activities: openActivities,
+            recent_activities: recentActivities,
+            notes,
+            files,
+            history,
+            errors
+          }
+        );
+      } catch (error) {
+        logger.error(`Error fetching the context of deal ${dealId}`, { error });
+        return errorResult(`fetching the context of deal ${dealId}`, error);
+      }
+    }
+  );
+}
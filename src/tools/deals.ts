@@ -0,0 +1,382 @@
+// Deal tools: list, get, history and search, plus create, update, move and status changes
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createRequestStats, pipedriveRequest, withoutUndefined } from "../api.js";
+import { budgetItems, countBy, totalsBy } from "../budget.js";
+import { historyInputShape, historyOutputShape, readHistory } from "../changelog.js";
+import { customFields, pipedriveClients } from "../clients.js";
+import { rawCustomFieldsParam } from "../customFields.js";
+import { errorResult } from "../errors.js";
+import { ToolGuard } from "../guard.js";
+import { decodeCursor, describePage, inDateRange, inNumberRange, matchesCustomFieldFilters, projectFields, sortRecords } from "../listQuery.js";
+import { logger } from "../logger.js";
+import { dealSchema, pageShape, pageSummary, searchResultsShape, structuredResult, summarizedSchema } from "../output.js";
+import { collectCursorPages } from "../pagination.js";
+import { fetchStagesWithPipelineNames, pipelineParam, resolvePipeline, resolvePipelineAndStage, resolveStage, stageParam } from "../pipelines.js";
+
+// Fetch the current state of a deal for dry-run diffs
+async function fetchDealSnapshot(dealId: number): Promise<Record<string, unknown>> {
+  const response = await pipedriveRequest({ method: 'GET', path: `/v2/deals/${dealId}` });
+  return response.data;
+}
+
+// Aggregates returned instead of the full list when it goes over the response budget
+function dealStats(deals: Record<string, any>[]): Record<string, unknown> {
+  return {
+    by_status: countBy(deals, 'status'),
+    by_stage_id: countBy(deals, 'stage_id'),
+    by_owner_id: countBy(deals, 'owner_id'),
+    value_totals_by_currency: totalsBy(deals, 'value', 'currency')
+  };
+}
+
+export function registerDealTools(server: McpServer, guard: ToolGuard): void {
+  // Get deals with filtering, sorting, projection and optional paging
+  server.registerTool(
+    "get-deals",
+    {
+      description: "Get deals from Pipedrive including custom fields. Supports filtering, sorting, field projection and explicit paging with limit/cursor; without a limit every matching deal is returned.",
+      inputSchema: {
+      status: z.enum(['open', 'won', 'lost', 'deleted', 'all_not_deleted']).optional().describe("Filter by deal status (default: all_not_deleted)"),
+      count_only: z.boolean().optional().describe("Return only the count of deals"),
+      owner_id: z.number().optional().describe("Only deals owned by this user ID"),
+      person_id: z.number().optional().describe("Only deals linked to this person ID"),
+      org_id: z.number().optional().describe("Only deals linked to this organization ID"),
+      pipeline: pipelineParam.optional(),
+      stage: stageParam.optional(),
+      min_value: z.number().optional().describe("Minimum deal value (inclusive)"),
+      max_value: z.number().optional().describe("Maximum deal value (inclusive)"),
+      add_time_from: z.string().optional().describe("Only deals added on or after this date (YYYY-MM-DD or ISO 8601)"),
+      add_time_to: z.string().optional().describe("Only deals added on or before this date (YYYY-MM-DD or ISO 8601)"),
+      update_time_from: z.string().optional().describe("Only deals updated on or after this date (YYYY-MM-DD or ISO 8601)"),
+      update_time_to: z.string().optional().describe("Only deals updated on or before this date (YYYY-MM-DD or ISO 8601)"),
+      close_time_from: z.string().optional().describe("Only deals closed (won or lost) on or after this date (YYYY-MM-DD or ISO 8601)"),
+      close_time_to: z.string().optional().describe("Only deals closed (won or lost) on or before this date (YYYY-MM-DD or ISO 8601)"),
+      expected_close_date_from: z.string().optional().describe("Only deals expected to close on or after this date (YYYY-MM-DD)"),
+      expected_close_date_to: z.string().optional().describe("Only deals expected to close on or before this date (YYYY-MM-DD)"),
+      custom_fields: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe("Custom field values to match, keyed by field name (or hash key), e.g. {\"Segment\": \"Enterprise\"}. Option fields match by label or option ID."),
+      sort_by: z.enum(['id', 'add_time', 'update_time', 'value', 'title', 'expected_close_date', 'close_time']).optional().describe("Sort key (default: id)"),
+      sort_direction: z.enum(['asc', 'desc']).optional().describe("Sort direction (default: asc)"),
+      fields: z.array(z.string()).optional().describe("Only return these keys for each deal (custom fields by name); id is always included"),
+      limit: z.number().int().min(1).max(500).optional().describe("Return at most this many deals and a next_cursor for the rest"),
+      cursor: z.string().optional().describe("next_cursor from a previous call with the same filters, to fetch the next page"),
+      raw_custom_fields: rawCustomFieldsParam
+      },
+      outputSchema: {
+        ...z.object(pageShape).partial().shape,
+        retries: pageShape.retries,
+        status_filter: z.string(),
+        deals: z.array(dealSchema).optional().describe("Absent when count_only is set"),
+        summarized: summarizedSchema.optional()
+      }
+    },
+    async ({ status, count_only, pipeline, stage, sort_by, sort_direction, fields, limit, cursor, raw_custom_fields, ...filters }) => {
+      try {
+        const placement = await resolvePipelineAndStage(pipeline, stage);
+        // The API sorts by these keys itself; anything else needs every match loaded and sorted here
+        const serverSort = !sort_by || sort_by === 'id' || sort_by === 'add_time' || sort_by === 'update_time';
+        const position = cursor ? decodeCursor(cursor) : (serverSort ? { mode: 'api' as const, cursor: null, skip: 0 } : { mode: 'offset' as const, offset: 0 });
+        if ((position.mode === 'api') !== serverSort) {
+          throw new Error("The cursor was created with a different sort_by; repeat the original arguments when paging");
+        }
+
+        const query = {
+          status: status && status !== 'all_not_deleted' ? status : undefined,
+          owner_id: filters.owner_id,
+          person_id: filters.person_id,
+          org_id: filters.org_id,
+          pipeline_id: placement.pipeline_id,
+          stage_id: placement.stage_id,
+          // Narrow the API query as well; the exact bound is still applied below
+          updated_since: filters.update_time_from && !Number.isNaN(Date.parse(filters.update_time_from))
+            ? new Date(Date.parse(filters.update_time_from)).toISOString()
+            : undefined,
+          sort_by: serverSort ? sort_by : undefined,
+          sort_direction: serverSort ? sort_direction : undefined
+        };
+
+        const matches = async (deal: any): Promise<any | null> => {
+          const resolved = await customFields.resolveRecord('deal', deal);
+          const isMatch =
+            inNumberRange(deal.value, filters.min_value, filters.max_value) &&
+            inDateRange(deal.add_time, filters.add_time_from, filters.add_time_to) &&
+            inDateRange(deal.update_time, filters.update_time_from, filters.update_time_to) &&
+            inDateRange(deal.close_time, filters.close_time_from, filters.close_time_to) &&
+            inDateRange(deal.expected_close_date, filters.expected_close_date_from, filters.expected_close_date_to) &&
+            matchesCustomFieldFilters(deal, resolved, filters.custom_fields);
+          return isMatch ? (raw_custom_fields ? deal : resolved) : null;
+        };
+
+        logger.debug("Fetching deals", { query });
+
+        // Paging through the API directly can stop as soon as the page is full
+        const result = await collectCursorPages({
+          path: '/v2/deals',
+          query,
+          start: position.mode === 'api' ? position : undefined,
+          limit: serverSort && !count_only ? limit : undefined,
+          accept: matches
+        });
+        const collected = result.items;
+        let nextPosition = result.next;
+
+        logger.debug("Fetched deals", { count: collected.length, pages: result.pages, retries: result.retries });
+
+        if (count_only) {
+          return structuredResult(`Found ${collected.length} deals`, {
+            total_count: collected.length,
+            status_filter: status || 'all_not_deleted',
+            retries: result.retries,
+            message: `Found ${collected.length} deals`
+          });
+        }
+
+        let deals = collected;
+        if (!serverSort) {
+          const offset = position.mode === 'offset' ? position.offset : 0;
+          deals = sortRecords(collected, sort_by!, sort_direction);
+          if (limit !== undefined) {
+            nextPosition = offset + limit < deals.length ? { mode: 'offset', offset: offset + limit } : null;
+            deals = deals.slice(offset, offset + limit);
+          } else {
+            deals = deals.slice(offset);
+          }
+        }
+
+        const projected = deals.map(deal => projectFields(deal, fields));
+        const budgeted = budgetItems(projected, 'deals', () => dealStats(deals));
+
+        return structuredResult(pageSummary(projected.length, 'deals', nextPosition !== null, budgeted.summarized), {
+          ...describePage(projected.length, nextPosition, 'deals', cursor !== undefined),
+          returned_count: budgeted.items.length,
+          retries: result.retries,
+          status_filter: status || 'all_not_deleted',
+          deals: budgeted.items,
+          ...(budgeted.summarized ? { summarized: budgeted.summarized } : {})
+        });
+      } catch (error) {
+        logger.error("Error fetching deals", { error });
+        return errorResult("fetching deals", error);
+      }
+    }
+  );
+
+  // Get deal by ID
+  server.registerTool(
+    "get-deal",
+    {
+      description: "Get a specific deal by ID including custom fields",
+      inputSchema: {
+        dealId: z.number().describe("Pipedrive deal ID"),
+        raw_custom_fields: rawCustomFieldsParam
+      },
+      outputSchema: { deal: dealSchema }
+    },
+    async ({ dealId, raw_custom_fields }) => {
+      try {
+        const response = await (pipedriveClients().dealsApi as any).getDeal({ id: dealId });
+        const deal = raw_custom_fields ? response.data : await customFields.resolveRecord('deal', response.data);
+        return structuredResult(`Deal ${dealId}: ${deal.title}`, { deal });
+      } catch (error) {
+        logger.error(`Error fetching deal ${dealId}`, { error });
+        return errorResult(`fetching deal ${dealId}`, error);
+      }
+    }
+  );
+
+  // Get deal history/changelog
+  server.registerTool(
+    "get-deal-history",
+    {
+      description: "Get the change history of a deal: every field change with who made it and when, custom fields by name. Filter by field, user and time range, page with limit/cursor or set all_pages to follow the pages in one call. view \"timeline\" instead merges field changes, stage moves, activities and notes into one line each in chronological order.",
+      inputSchema: {
+        dealId: z.number().describe("Pipedrive deal ID"),
+        ...historyInputShape
+      },
+      outputSchema: {
+        deal_id: z.number(),
+        ...historyOutputShape
+      }
+    },
+    async ({ dealId, ...args }) => {
+      try {
+        const history = await readHistory({ entity: 'deal', id: dealId, path: `/v1/deals/${dealId}/changelog`, link: 'deal_id' }, args, createRequestStats());
+        return structuredResult(`Deal ${dealId}: ${history.summary}`, { deal_id: dealId, ...history.data });
+      } catch (error) {
+        logger.error(`Error fetching deal ${dealId} history`, { error });
+        return errorResult(`fetching deal ${dealId} history`, error);
+      }
+    }
+  );
+
+  // Search deals
+  server.registerTool(
+    "search-deals",
+    {
+      description: "Search deals by term",
+      inputSchema: {
+        term: z.string().describe("Search term for deals")
+      },
+      outputSchema: searchResultsShape
+    },
+    async ({ term }) => {
+      try {
+        const response = await pipedriveClients().dealsApi.searchDeals({ term });
+        const items = response.data?.items ?? [];
+        return structuredResult(`${items.length} deals match "${term}"`, { items });
+      } catch (error) {
+        logger.error(`Error searching deals with term "${term}"`, { error });
+        return errorResult("searching deals", error);
+      }
+    }
+  );
+
+  // Create a deal
+  guard.mutatingTool(
+    "create-deal",
+    "Create a new deal in Pipedrive. Pipeline and stage can be given by name or ID.",
+    {
+      title: z.string().describe("Deal title"),
+      value: z.number().optional().describe("Deal value"),
+      currency: z.string().optional().describe("Currency code of the deal value, e.g. USD (default: the company's default currency)"),
+      owner_id: z.number().optional().describe("ID of the user who owns the deal (default: the token owner)"),
+      person_id: z.number().optional().describe("ID of the person linked to the deal"),
+      org_id: z.number().optional().describe("ID of the organization linked to the deal"),
+      pipeline: pipelineParam.optional(),
+      stage: stageParam.optional(),
+      expected_close_date: z.string().optional().describe("Expected close date in YYYY-MM-DD format"),
+      probability: z.number().min(0).max(100).optional().describe("Deal success probability percentage")
+    },
+    {
+      action: ({ title }) => `creating deal "${title}"`,
+      output: { deal: dealSchema },
+      plan: async ({ pipeline, stage, ...fields }) => {
+        const placement = await resolvePipelineAndStage(pipeline, stage);
+        return {
+          request: {
+            method: 'POST',
+            path: '/v2/deals',
+            body: { ...withoutUndefined(fields), ...placement }
+          },
+          present: async response => ({ deal: await customFields.resolveRecord('deal', response.data) })
+        };
+      }
+    }
+  );
+
+  // Update deal fields
+  guard.mutatingTool(
+    "update-deal",
+    "Update the title, value, owner, linked person/organization or expected close date of a deal",
+    {
+      dealId: z.number().describe("Pipedrive deal ID"),
+      title: z.string().optional().describe("New deal title"),
+      value: z.number().optional().describe("New deal value"),
+      currency: z.string().optional().describe("Currency code of the deal value, e.g. USD"),
+      owner_id: z.number().optional().describe("ID of the user who should own the deal"),
+      person_id: z.number().optional().describe("ID of the person linked to the deal"),
+      org_id: z.number().optional().describe("ID of the organization linked to the deal"),
+      expected_close_date: z.string().optional().describe("Expected close date in YYYY-MM-DD format"),
+      probability: z.number().min(0).max(100).optional().describe("Deal success probability percentage")
+    },
+    {
+      action: ({ dealId }) => `updating deal ${dealId}`,
+      output: { deal: dealSchema },
+      plan: async ({ dealId, ...fields }) => {
+        const changes = withoutUndefined(fields);
+        if (Object.keys(changes).length === 0) {
+          throw new Error("No fields to update were given");
+        }
+
+        return {
+          request: {
+            method: 'PATCH',
+            path: `/v2/deals/${dealId}`,
+            body: changes
+          },
+          before: () => fetchDealSnapshot(dealId),
+          present: async response => ({ deal: await customFields.resolveRecord('deal', response.data) })
+        };
+      }
+    }
+  );
+
+  // Move a deal to another stage and/or pipeline
+  guard.mutatingTool(
+    "move-deal",
+    "Move a deal to another stage and/or pipeline. Stage and pipeline can be given by name or ID; when only a pipeline is given the deal goes to its first stage.",
+    {
+      dealId: z.number().describe("Pipedrive deal ID"),
+      stage: stageParam.optional(),
+      pipeline: pipelineParam.optional()
+    },
+    {
+      action: ({ dealId }) => `moving deal ${dealId}`,
+      output: { message: z.string(), deal: dealSchema },
+      plan: async ({ dealId, stage, pipeline }) => {
+        if (stage === undefined && pipeline === undefined) {
+          throw new Error("Either a stage or a pipeline is required to move a deal");
+        }
+
+        let target: { id: number; name: string; pipeline_id: number; pipeline_name: string };
+        if (stage !== undefined) {
+          const resolvedPipeline = pipeline === undefined ? undefined : await resolvePipeline(pipeline);
+          target = await resolveStage(stage, resolvedPipeline?.id);
+        } else {
+          const resolvedPipeline = await resolvePipeline(pipeline!);
+          const stages = (await fetchStagesWithPipelineNames())
+            .filter(s => s.pipeline_id === resolvedPipeline.id)
+            .sort((a, b) => a.order_nr - b.order_nr);
+          if (stages.length === 0) {
+            throw new Error(`Pipeline "${resolvedPipeline.name}" has no stages`);
+          }
+          target = { id: stages[0].id, name: stages[0].name, pipeline_id: resolvedPipeline.id, pipeline_name: resolvedPipeline.name };
+        }
+
+        return {
+          request: {
+            method: 'PATCH',
+            path: `/v2/deals/${dealId}`,
+            body: { stage_id: target.id, pipeline_id: target.pipeline_id }
+          },
+          before: () => fetchDealSnapshot(dealId),
+          present: async response => ({
+            message: `Deal ${dealId} moved to stage "${target.name}" in pipeline "${target.pipeline_name}"`,
+            deal: await customFields.resolveRecord('deal', response.data)
+          })
+        };
+      }
+    }
+  );
+
+  // Mark a deal as won, lost or open again
+  guard.mutatingTool(
+    "set-deal-status",
+    "Mark a deal as won or lost (with an optional lost reason), or reopen it",
+    {
+      dealId: z.number().describe("Pipedrive deal ID"),
+      status: z.enum(['won', 'lost', 'open']).describe("New deal status"),
+      lost_reason: z.string().optional().describe("Reason the deal was lost (only used when status is lost)")
+    },
+    {
+      action: ({ dealId }) => `setting status of deal ${dealId}`,
+      output: { deal: dealSchema },
+      plan: async ({ dealId, status, lost_reason }) => {
+        if (lost_reason && status !== 'lost') {
+          throw new Error("A lost reason can only be given when marking a deal as lost");
+        }
+
+        return {
+          request: {
+            method: 'PATCH',
+            path: `/v2/deals/${dealId}`,
+            body: lost_reason ? { status, lost_reason } : { status }
+          },
+          before: () => fetchDealSnapshot(dealId),
+          present: async response => ({ deal: await customFields.resolveRecord('deal', response.data) })
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,70 @@
+// Event tools: what changed in Pipedrive, as reported by webhooks
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { errorResult } from "../errors.js";
+import { logger } from "../logger.js";
+import { structuredResult } from "../output.js";
+import { currentAccountName, eventLogStart, recentEvents, WEBHOOK_ACTIONS, WEBHOOK_ENTITIES } from "../webhooks.js";
+
+const eventSchema = z.object({
+  id: z.string(),
+  received_at: z.string(),
+  time: z.string().nullable().describe("When the change happened in Pipedrive"),
+  action: z.enum(WEBHOOK_ACTIONS),
+  entity: z.enum(WEBHOOK_ENTITIES),
+  entity_id: z.number().nullable(),
+  user_id: z.number().nullable().describe("User who made the change"),
+  label: z.string().nullable().describe("Title, name or subject of the record"),
+  changes: z.record(z.object({ previous: z.unknown(), current: z.unknown() })).describe("Changed fields of change events")
+});
+
+export function registerEventTools(server: McpServer): void {
+  // Query the log of webhook events
+  server.registerTool(
+    "get-recent-events",
+    {
+      description: "List recent changes to deals, persons, organizations and activities as Pipedrive reported them through webhooks, newest first, e.g. \"what changed on my deals since this morning\". Only changes since log_started_at are known; use get-deal-history etc. for older ones.",
+      inputSchema: {
+        since: z.string().optional().describe("Only events on or after this time (YYYY-MM-DD or ISO 8601)"),
+        entity: z.enum(WEBHOOK_ENTITIES).optional().describe("Only events about this kind of record"),
+        entity_id: z.number().optional().describe("Only events about the record with this ID; set entity as well"),
+        action: z.enum(WEBHOOK_ACTIONS).optional().describe("Only records that were created, changed or deleted"),
+        user_id: z.number().optional().describe("Only changes made by this user ID"),
+        limit: z.number().int().min(1).max(500).optional().describe("Return at most this many events (default 50)")
+      },
+      outputSchema: {
+        total_count: z.number(),
+        returned_count: z.number(),
+        log_started_at: z.string().nullable().describe("Every event received since this time is in the log"),
+        events: z.array(eventSchema)
+      }
+    },
+    async ({ since, entity, entity_id, action, user_id, limit }) => {
+      try {
+        const account = currentAccountName();
+        if (!account) {
+          throw new Error("Webhook events are only logged for the server's own accounts and default OAuth authorization, not for credentials a session brings");
+        }
+        const sinceTime = since ? Date.parse(since) : undefined;
+        if (sinceTime !== undefined && Number.isNaN(sinceTime)) {
+          throw new Error(`since "${since}" is not a date; use YYYY-MM-DD or ISO 8601`);
+        }
+        const matching = recentEvents({ account, since: sinceTime, entity, entity_id, action, user_id });
+        const returned = matching.slice(0, limit ?? 50).map(({ account: _account, ...event }) => event);
+        return structuredResult(
+          `Returned ${returned.length} of ${matching.length} events`,
+          {
+            total_count: matching.length,
+            returned_count: returned.length,
+            log_started_at: eventLogStart(),
+            events: returned
+          }
+        );
+      } catch (error) {
+        logger.error("Error reading webhook events", { error });
+        return errorResult("reading webhook events", error);
+      }
+    }
+  );
+}
@@ -0,0 +1,437 @@
+// Lead tools: list, get, create, update, archive and convert leads, and manage lead labels
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { pipedriveRequest, withoutUndefined } from "../api.js";
+import { cached } from "../cache.js";
+import { pipedriveClients } from "../clients.js";
+import { errorResult } from "../errors.js";
+import { ToolGuard } from "../guard.js";
+import { decodeCursor, describePage, stoppedScanMessage } from "../listQuery.js";
+import { logger } from "../logger.js";
+import { leadLabelSchema, leadSchema, pageShape, pageSummary, searchResultsShape, structuredResult } from "../output.js";
+import { collectOffsetPages, MAX_PAGE_SIZE, MAX_SCAN_PAGES } from "../pagination.js";
+import { pipelineParam, resolvePipelineAndStage, stageParam } from "../pipelines.js";
+
+interface LeadLabel {
+  id: string;
+  name: string;
+  color: string;
+}
+
+const LABEL_COLORS = ['green', 'blue', 'red', 'yellow', 'purple', 'gray'] as const;
+
+// How long convert-lead-to-deal waits for Pipedrive's asynchronous conversion
+const CONVERSION_POLL_ATTEMPTS = 10;
+const CONVERSION_POLL_INTERVAL_MS = 1000;
+
+function fetchLeadLabels(): Promise<LeadLabel[]> {
+  return cached('lead_labels', 'all', async () => {
+    const response = await pipedriveRequest({ method: 'GET', path: '/v1/leadLabels' });
+    return response.data || [];
+  });
+}
+
+// Resolve lead labels given by name or UUID to their UUIDs
+async function resolveLeadLabelIds(labels: string[]): Promise<string[]> {
+  const available = await fetchLeadLabels();
+  return labels.map(label => {
+    const wanted = label.trim().toLowerCase();
+    const found = available.find(l => l.id === label.trim()) || available.find(l => l.name.trim().toLowerCase() === wanted);
+    if (!found) {
+      throw new Error(`Lead label "${label}" not found. Available labels: ${available.map(l => l.name).join(', ')}`);
+    }
+    return found.id;
+  });
+}
+
+async function fetchLead(leadId: string): Promise<Record<string, any>> {
+  const response = await pipedriveRequest({ method: 'GET', path: `/v1/leads/${encodeURIComponent(leadId)}` });
+  return response.data;
+}
+
+// Adds label names next to label IDs so the model doesn't need a second lookup
+function withLabelNames(lead: Record<string, any>, labels: LeadLabel[]): Record<string, any> {
+  const names = new Map(labels.map(label => [label.id, label.name]));
+  return {
+    ...lead,
+    labels: (lead.label_ids || []).map((id: string) => names.get(id) ?? id)
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Wait for an asynchronous lead conversion to finish and return its final status
+async function waitForConversion(leadId: string, conversionId: string): Promise<Record<string, any>> {
+  let status: Record<string, any> = { status: 'not_started' };
+  for (let attempt = 0; attempt < CONVERSION_POLL_ATTEMPTS; attempt++) {
+    const response = await pipedriveRequest({
+      method: 'GET',
+      path: `/v2/leads/${encodeURIComponent(leadId)}/convert/status/${encodeURIComponent(conversionId)}`
+    });
+    status = response.data || status;
+    if (status.status === 'completed' || status.status === 'failed' || status.status === 'rejected') {
+      return status;
+    }
+    await sleep(CONVERSION_POLL_INTERVAL_MS);
+  }
+  return status;
+}
+
+const leadFieldParams = {
+  owner_id: z.number().optional().describe("ID of the user who owns the lead"),
+  person_id: z.number().optional().describe("ID of the person linked to the lead"),
+  organization_id: z.number().optional().describe("ID of the organization linked to the lead"),
+  labels: z.array(z.string()).optional().describe("Lead labels by name or UUID; replaces the current labels"),
+  value: z.number().optional().describe("Potential value of the lead"),
+  currency: z.string().optional().describe("Currency code of the value, e.g. USD (required together with value)"),
+  expected_close_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format").optional().describe("Expected close date (YYYY-MM-DD)")
+};
+
+// Turn lead tool arguments into a v1 lead request body
+async function buildLeadBody(fields: { labels?: string[]; value?: number; currency?: string } & Record<string, unknown>): Promise<Record<string, unknown>> {
+  const { labels, value, currency, ...rest } = fields;
+  if ((value === undefined) !== (currency === undefined)) {
+    throw new Error("value and currency must be given together");
+  }
+  return {
+    ...withoutUndefined(rest),
+    ...(labels === undefined ? {} : { label_ids: await resolveLeadLabelIds(labels) }),
+    ...(value === undefined ? {} : { value: { amount: value, currency } })
+  };
+}
+
+export function registerLeadTools(server: McpServer, guard: ToolGuard): void {
+  // Search leads
+  server.registerTool(
+    "search-leads",
+    {
+      description: "Search leads by term",
+      inputSchema: {
+        term: z.string().describe("Search term for leads")
+      },
+      outputSchema: searchResultsShape
+    },
+    async ({ term }) => {
+      try {
+        const response = await pipedriveClients().leadsApi.searchLeads({ term });
+        const items = response.data?.items ?? [];
+        return structuredResult(`${items.length} leads match "${term}"`, { items });
+      } catch (error) {
+        logger.error(`Error searching leads with term "${term}"`, { error });
+        return errorResult("searching leads", error);
+      }
+    }
+  );
+
+  // List leads with filters
+  server.registerTool(
+    "get-leads",
+    {
+      description: `Get leads from Pipedrive, filtered by owner, label, archived state, source or linked person/organization. The label and source filters are applied to the listing page by page, so with either one a call scans at most ${MAX_SCAN_PAGES * MAX_PAGE_SIZE} leads and returns a next_cursor to scan further; narrow with owner_id or a linked record to scan less.`,
+      inputSchema: {
+        owner_id: z.number().optional().describe("Only leads owned by this user ID"),
+        person_id: z.number().optional().describe("Only leads linked to this person ID"),
+        organization_id: z.number().optional().describe("Only leads linked to this organization ID"),
+        label: z.string().optional().describe("Only leads with this label, by name or UUID"),
+        archived: z.enum(['not_archived', 'archived', 'all']).optional().describe("Archived state to include (default: not_archived)"),
+        source: z.string().optional().describe("Only leads from this source, e.g. \"Manually created\" or \"Web forms\""),
+        limit: z.number().int().min(1).optional().describe("Return at most this many leads and a next_cursor for the rest"),
+        cursor: z.string().optional().describe("next_cursor from a previous call with the same filters, to continue where it stopped")
+      },
+      outputSchema: {
+        ...pageShape,
+        leads: z.array(leadSchema)
+      }
+    },
+    async ({ owner_id, person_id, organization_id, label, archived, source, limit, cursor }) => {
+      try {
+        const position = cursor ? decodeCursor(cursor) : undefined;
+        if (position && position.mode !== 'offset') {
+          throw new Error("This cursor does not belong to get-leads");
+        }
+
+        const labels = await fetchLeadLabels();
+        const [labelId] = label ? await resolveLeadLabelIds([label]) : [];
+        const wantedSource = source?.trim().toLowerCase();
+        // The API filters by owner, linked record and archived state; label and source are matched here
+        const filtersLocally = Boolean(labelId || wantedSource);
+
+        const result = await collectOffsetPages({
+          path: '/v1/leads',
+          query: { owner_id, person_id, organization_id, archived_status: archived || 'not_archived', sort: 'add_time DESC' },
+          start: position?.offset,
+          limit,
+          maxPages: filtersLocally ? MAX_SCAN_PAGES : undefined,
+          accept: lead =>
+            (!labelId || (lead.label_ids || []).includes(labelId)) &&
+            (!wantedSource || (lead.source_name || '').trim().toLowerCase() === wantedSource)
+              ? withLabelNames(lead, labels)
+              : null
+        });
+
+        const stopped = result.stoppedEarly ? stoppedScanMessage(result.items.length, 'leads', result.pages) : null;
+        return structuredResult(stopped ?? pageSummary(result.items.length, 'leads', result.next !== null), {
+          ...describePage(result.items.length, result.next, 'leads', cursor !== undefined),
+          ...(stopped ? { message: stopped } : {}),
+          retries: result.retries,
+          leads: result.items
+        });
+      } catch (error) {
+        logger.error("Error fetching leads", { error });
+        return errorResult("fetching leads", error);
+      }
+    }
+  );
+
+  // Get lead by UUID
+  server.registerTool(
+    "get-lead",
+    {
+      description: "Get a specific lead by its UUID",
+      inputSchema: {
+        leadId: z.string().describe("Pipedrive lead UUID")
+      },
+      outputSchema: { lead: leadSchema }
+    },
+    async ({ leadId }) => {
+      try {
+        const [lead, labels] = await Promise.all([fetchLead(leadId), fetchLeadLabels()]);
+        return structuredResult(`Lead ${leadId}: ${lead.title}`, { lead: withLabelNames(lead, labels) });
+      } catch (error) {
+        logger.error(`Error fetching lead ${leadId}`, { error });
+        return errorResult(`fetching lead ${leadId}`, error);
+      }
+    }
+  );
+
+  // Create a lead
+  guard.mutatingTool(
+    "create-lead",
+    "Create a lead linked to a person and/or organization. Labels can be given by name.",
+    {
+      title: z.string().describe("Lead title"),
+      ...leadFieldParams
+    },
+    {
+      action: ({ title }) => `creating lead "${title}"`,
+      output: { lead: leadSchema },
+      plan: async fields => {
+        if (fields.person_id === undefined && fields.organization_id === undefined) {
+          throw new Error("A lead must be linked to a person_id or an organization_id");
+        }
+        return {
+          request: {
+            method: 'POST',
+            path: '/v1/leads',
+            body: await buildLeadBody(fields)
+          },
+          present: async response => ({ lead: withLabelNames(response.data, await fetchLeadLabels()) })
+        };
+      }
+    }
+  );
+
+  // Update a lead
+  guard.mutatingTool(
+    "update-lead",
+    "Update the title, owner, labels, value, expected close date or linked person/organization of a lead",
+    {
+      leadId: z.string().describe("Pipedrive lead UUID"),
+      title: z.string().optional().describe("New lead title"),
+      ...leadFieldParams
+    },
+    {
+      action: ({ leadId }) => `updating lead ${leadId}`,
+      output: { lead: leadSchema },
+      plan: async ({ leadId, ...fields }) => {
+        const body = await buildLeadBody(fields);
+        if (Object.keys(body).length === 0) {
+          throw new Error("No fields to update were given");
+        }
+        return {
+          request: {
+            method: 'PATCH',
+            path: `/v1/leads/${encodeURIComponent(leadId)}`,
+            body
+          },
+          before: () => fetchLead(leadId),
+          present: async response => ({ lead: withLabelNames(response.data, await fetchLeadLabels()) })
+        };
+      }
+    }
+  );
+
+  // Archive or unarchive a lead
+  guard.mutatingTool(
+    "archive-lead",
+    "Archive a lead, or restore an archived lead",
+    {
+      leadId: z.string().describe("Pipedrive lead UUID"),
+      archived: z.boolean().optional().describe("false to restore an archived lead (default: true)")
+    },
+    {
+      action: ({ leadId }) => `archiving lead ${leadId}`,
+      output: { lead: leadSchema },
+      plan: async ({ leadId, archived }) => ({
+        request: {
+          method: 'PATCH',
+          path: `/v1/leads/${encodeURIComponent(leadId)}`,
+          body: { is_archived: archived ?? true }
+        },
+        before: () => fetchLead(leadId),
+        present: response => ({ lead: response.data })
+      })
+    }
+  );
+
+  // Convert a lead into a deal
+  guard.mutatingTool(
+    "convert-lead-to-deal",
+    "Convert a lead into a deal. The deal keeps the lead's person and organization links, notes and activities; the lead is archived. Pipeline and stage can be given by name or ID.",
+    {
+      leadId: z.string().describe("Pipedrive lead UUID"),
+      pipeline: pipelineParam.optional(),
+      stage: stageParam.optional()
+    },
+    {
+      action: ({ leadId }) => `converting lead ${leadId} to a deal`,
+      output: {
+        lead_id: z.string(),
+        conversion_id: z.string().nullable(),
+        status: z.string().describe("completed, failed, rejected, or still running"),
+        deal_id: z.number().nullable(),
+        message: z.string()
+      },
+      plan: async ({ leadId, pipeline, stage }) => {
+        const placement = await resolvePipelineAndStage(pipeline, stage);
+        return {
+          request: {
+            method: 'POST',
+            path: `/v2/leads/${encodeURIComponent(leadId)}/convert/deal`,
+            body: placement
+          },
+          before: () => fetchLead(leadId),
+          present: async response => {
+            const conversionId = response.data?.conversion_id;
+            if (!conversionId) {
+              return {
+                lead_id: leadId,
+                conversion_id: null,
+                status: 'unknown',
+                deal_id: response.data?.deal_id ?? null,
+                message: "Pipedrive did not return a conversion ID; check the deal list for the new deal"
+              };
+            }
+            const status = await waitForConversion(leadId, conversionId);
+            return {
+              lead_id: leadId,
+              conversion_id: conversionId,
+              status: status.status,
+              deal_id: status.deal_id ?? null,
+              message: status.status === 'completed'
+                ? `Lead ${leadId} was converted into deal ${status.deal_id}`
+                : `Conversion is ${status.status}; check the deal list again shortly`
+            };
+          }
+        };
+      }
+    }
+  );
+
+  // List lead labels
+  server.registerTool(
+    "get-lead-labels",
+    {
+      description: "Get all lead labels",
+      inputSchema: {},
+      outputSchema: { labels: z.array(leadLabelSchema) }
+    },
+    async () => {
+      try {
+        const labels = await fetchLeadLabels();
+        return structuredResult(`${labels.length} lead labels`, { labels });
+      } catch (error) {
+        logger.error("Error fetching lead labels", { error });
+        return errorResult("fetching lead labels", error);
+      }
+    }
+  );
+
+  // Create a lead label
+  guard.mutatingTool(
+    "create-lead-label",
+    "Create a lead label",
+    {
+      name: z.string().describe("Label name"),
+      color: z.enum(LABEL_COLORS).describe("Label color")
+    },
+    {
+      action: ({ name }) => `creating lead label "${name}"`,
+      output: { label: leadLabelSchema },
+      plan: async ({ name, color }) => ({
+        request: {
+          method: 'POST',
+          path: '/v1/leadLabels',
+          body: { name, color }
+        },
+        present: response => ({ label: response.data })
+      })
+    }
+  );
+
+  // Rename or recolor a lead label
+  guard.mutatingTool(
+    "update-lead-label",
+    "Rename or recolor a lead label",
+    {
+      label: z.string().describe("Label to change, by name or UUID"),
+      name: z.string().optional().describe("New label name"),
+      color: z.enum(LABEL_COLORS).optional().describe("New label color")
+    },
+    {
+      action: ({ label }) => `updating lead label "${label}"`,
+      output: { label: leadLabelSchema },
+      plan: async ({ label, name, color }) => {
+        const changes = withoutUndefined({ name, color });
+        if (Object.keys(changes).length === 0) {
+          throw new Error("No fields to update were given");
+        }
+        const [labelId] = await resolveLeadLabelIds([label]);
+        return {
+          request: {
+            method: 'PATCH',
+            path: `/v1/leadLabels/${labelId}`,
+            body: changes
+          },
+          before: async () => ((await fetchLeadLabels()).find(l => l.id === labelId) as Record<string, any> | undefined) ?? null,
+          present: response => ({ label: response.data })
+        };
+      }
+    }
+  );
+
+  // Delete a lead label
+  guard.mutatingTool(
+    "delete-lead-label",
+    "Delete a lead label; it is removed from every lead that has it",
+    {
+      label: z.string().describe("Label to delete, by name or UUID")
+    },
+    {
+      action: ({ label }) => `deleting lead label "${label}"`,
+      output: { label: leadLabelSchema.describe("The deleted label's ID") },
+      plan: async ({ label }) => {
+        const [labelId] = await resolveLeadLabelIds([label]);
+        return {
+          request: {
+            method: 'DELETE',
+            path: `/v1/leadLabels/${labelId}`
+          },
+          before: async () => ((await fetchLeadLabels()).find(l => l.id === labelId) as Record<string, any> | undefined) ?? null,
+          present: response => ({ label: response.data })
+        };
+      }
+    }
+  );
+}
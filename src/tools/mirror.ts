@@ -0,0 +1,110 @@
+// Mirror tools: sync the local SQLite mirror and answer aggregate questions from it
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { budgetItems } from "../budget.js";
+import { errorResult } from "../errors.js";
+import { logger } from "../logger.js";
+import { AGGREGATE_FUNCTIONS, FILTER_OPS, MIRROR_ENTITIES, mirrorColumns, queryMirror, syncMirror } from "../mirror.js";
+import { structuredResult, summarizedSchema } from "../output.js";
+
+const filterValue = z.union([z.string(), z.number(), z.boolean()]);
+
+const syncResultSchema = z.object({
+  entity: z.enum(MIRROR_ENTITIES),
+  mode: z.enum(['full', 'incremental']),
+  upserted: z.number(),
+  deleted: z.number(),
+  synced_at: z.string()
+});
+
+export function registerMirrorTools(server: McpServer): void {
+  const columnList = MIRROR_ENTITIES.map(entity => `${entity}: ${mirrorColumns(entity).join(', ')}`).join('; ');
+
+  // Query the local mirror
+  server.registerTool(
+    "query-mirror",
+    {
+      description: `Answer counting, grouping and totalling questions from the local mirror instead of listing records through the API, e.g. "total open deal value by stage per owner". The entity is synced first when its mirror is out of date. Rows only hold these fields (IDs, not names; name owner_id with get-users, stage_id and pipeline_id with get-stages): ${columnList}. Group deal values by currency as well, since amounts in different currencies are not converted. Deleted leads can remain for up to an hour, until leads are reloaded in full.`,
+      inputSchema: {
+        entity: z.enum(MIRROR_ENTITIES).describe("What to query"),
+        filters: z.array(z.object({
+          field: z.string(),
+          op: z.enum(FILTER_OPS).describe("contains is a case-insensitive substring match; in takes an array; is_null and not_null take no value"),
+          value: z.union([filterValue, z.array(filterValue)]).optional()
+        })).optional().describe("Conditions every row must meet, e.g. [{\"field\": \"status\", \"op\": \"eq\", \"value\": \"open\"}]; booleans such as done compare with true or false"),
+        group_by: z.array(z.string()).optional().describe("Return one row per combination of these fields"),
+        aggregates: z.array(z.object({
+          fn: z.enum(AGGREGATE_FUNCTIONS),
+          field: z.string().optional().describe("Required except for count"),
+          as: z.string().optional().describe("Name of the result column (default: <fn>_<field>, or count)")
+        })).optional().describe("Values to compute per group, or over all matching rows without group_by; grouped rows get a count when none are given"),
+        fields: z.array(z.string()).optional().describe("Without group_by and aggregates: the fields to return for each matching record (default: all)"),
+        order_by: z.array(z.object({
+          field: z.string().describe("A returned field or aggregate name"),
+          direction: z.enum(['asc', 'desc']).optional()
+        })).optional(),
+        limit: z.number().int().min(1).max(1000).optional().describe("Return at most this many rows (default 100)")
+      },
+      outputSchema: {
+        entity: z.enum(MIRROR_ENTITIES),
+        rows: z.array(z.record(z.unknown())),
+        returned_count: z.number(),
+        truncated: z.boolean().describe("More rows matched than limit"),
+        synced_at: z.string().describe("When the mirror of this entity was last synced with Pipedrive"),
+        sql: z.string().describe("The statement that was run, with ? for each bound value"),
+        summarized: summarizedSchema.optional()
+      }
+    },
+    async ({ entity, limit, ...query }) => {
+      try {
+        const result = await queryMirror({ entity, limit: limit ?? 100, ...query });
+        const budgeted = budgetItems(result.rows, `${entity} rows`, () => ({ row_count: result.rows.length }));
+        const summary = budgeted.summarized
+          ? `Found ${result.rows.length} ${entity} rows, over the response budget: returned the first ${budgeted.items.length}; read the rest with get-result-page and result_handle ${budgeted.summarized.result_handle}`
+          : `Returned ${result.rows.length} ${entity} rows${result.truncated ? '; more matched, raise limit or narrow the filters' : ''} (mirror synced at ${result.synced_at})`;
+        return structuredResult(summary, {
+          entity,
+          rows: budgeted.items,
+          returned_count: budgeted.items.length,
+          truncated: result.truncated,
+          synced_at: result.synced_at,
+          sql: result.sql,
+          ...(budgeted.summarized ? { summarized: budgeted.summarized } : {})
+        });
+      } catch (error) {
+        logger.error(`Error querying the ${entity} mirror`, { error });
+        return errorResult(`querying the ${entity} mirror`, error);
+      }
+    }
+  );
+
+  // Sync the local mirror now
+  server.registerTool(
+    "sync-mirror",
+    {
+      description: "Bring the local mirror up to date with Pipedrive now. query-mirror already syncs what it reads when it is out of date; use this to sync ahead of time or, with full, to rebuild the mirror from scratch.",
+      inputSchema: {
+        entities: z.array(z.enum(MIRROR_ENTITIES)).optional().describe("What to sync (default: everything)"),
+        full: z.boolean().optional().describe("Reload every record instead of only those changed since the last sync")
+      },
+      outputSchema: {
+        synced: z.array(syncResultSchema)
+      }
+    },
+    async ({ entities, full }) => {
+      try {
+        const wanted = entities && entities.length > 0 ? entities : [...MIRROR_ENTITIES];
+        const synced = [];
+        for (const entity of wanted) {
+          synced.push(await syncMirror(entity, full ?? false));
+        }
+        const changes = synced.map(result => `${result.entity} ${result.mode} (${result.upserted} updated, ${result.deleted} deleted)`);
+        return structuredResult(`Synced ${changes.join(', ')}`, { synced });
+      } catch (error) {
+        logger.error("Error syncing the mirror", { error });
+        return errorResult("syncing the mirror", error);
+      }
+    }
+  );
+}
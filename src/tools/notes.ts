@@ -0,0 +1,197 @@
+// Note tools: list, search and add notes on deals, persons, organizations and leads
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { withoutUndefined } from "../api.js";
+import { errorResult } from "../errors.js";
+import { ToolGuard } from "../guard.js";
+import { convertHtml, TextFormat } from "../html.js";
+import { decodeCursor, describePage, stoppedScanMessage } from "../listQuery.js";
+import { logger } from "../logger.js";
+import { noteSchema, pageShape, pageSummary, structuredResult } from "../output.js";
+import { collectOffsetPages, MAX_PAGE_SIZE, MAX_SCAN_PAGES } from "../pagination.js";
+
+// Compact, model-friendly view of a v1 note
+export function presentNote(note: any, format: TextFormat) {
+  return {
+    id: note.id,
+    content: convertHtml(note.content, format),
+    author: note.user?.name ?? null,
+    author_id: note.user_id ?? null,
+    add_time: note.add_time,
+    update_time: note.update_time,
+    deal_id: note.deal_id ?? null,
+    deal_title: note.deal?.title ?? null,
+    person_id: note.person_id ?? null,
+    person_name: note.person?.name ?? null,
+    org_id: note.org_id ?? null,
+    org_name: note.organization?.name ?? null,
+    lead_id: note.lead_id ?? null,
+    pinned: {
+      deal: Boolean(note.pinned_to_deal_flag),
+      person: Boolean(note.pinned_to_person_flag),
+      organization: Boolean(note.pinned_to_organization_flag),
+      lead: Boolean(note.pinned_to_lead_flag)
+    }
+  };
+}
+
+const formatParam = z.enum(['markdown', 'text', 'html']).optional().describe("How to return note bodies: markdown (default), plain text or the original HTML");
+
+const linkParams = {
+  deal_id: z.number().optional().describe("Deal ID"),
+  person_id: z.number().optional().describe("Person ID"),
+  org_id: z.number().optional().describe("Organization ID"),
+  lead_id: z.string().optional().describe("Lead UUID")
+};
+
+export function registerNoteTools(server: McpServer, guard: ToolGuard): void {
+  // List notes attached to a record
+  server.registerTool(
+    "get-notes",
+    {
+      description: "Get the notes attached to a deal, person, organization or lead, newest first, with author and pinned flags",
+      inputSchema: {
+        ...linkParams,
+        pinned_only: z.boolean().optional().describe("Only return notes pinned to the given record"),
+        format: formatParam,
+        limit: z.number().int().min(1).optional().describe("Return at most this many notes and a next_cursor for the rest"),
+        cursor: z.string().optional().describe("next_cursor from a previous call with the same arguments, to continue where it stopped")
+      },
+      outputSchema: {
+        ...pageShape,
+        notes: z.array(noteSchema)
+      }
+    },
+    async ({ deal_id, person_id, org_id, lead_id, pinned_only, format, limit, cursor }) => {
+      try {
+        if (deal_id === undefined && person_id === undefined && org_id === undefined && lead_id === undefined) {
+          throw new Error("One of deal_id, person_id, org_id or lead_id is required");
+        }
+        const position = cursor ? decodeCursor(cursor) : undefined;
+        if (position && position.mode !== 'offset') {
+          throw new Error("This cursor does not belong to get-notes");
+        }
+
+        // Each pinned flag only filters when the matching record is given
+        const pinned = pinned_only ? 1 : undefined;
+        const result = await collectOffsetPages({
+          path: '/v1/notes',
+          query: {
+            ...withoutUndefined({ deal_id, person_id, org_id, lead_id }),
+            pinned_to_deal_flag: deal_id !== undefined ? pinned : undefined,
+            pinned_to_person_flag: person_id !== undefined ? pinned : undefined,
+            pinned_to_organization_flag: org_id !== undefined ? pinned : undefined,
+            pinned_to_lead_flag: lead_id !== undefined ? pinned : undefined,
+            sort: 'add_time DESC'
+          },
+          start: position?.offset,
+          limit,
+          accept: note => presentNote(note, format || 'markdown')
+        });
+
+        return structuredResult(pageSummary(result.items.length, 'notes', result.next !== null), {
+          ...describePage(result.items.length, result.next, 'notes', cursor !== undefined),
+          retries: result.retries,
+          notes: result.items
+        });
+      } catch (error) {
+        logger.error("Error fetching notes", { error });
+        return errorResult("fetching notes", error);
+      }
+    }
+  );
+
+  // Search note contents
+  server.registerTool(
+    "search-notes",
+    {
+      description: `Search notes by content, optionally limited to one deal, person, organization or lead. Each call scans at most ${MAX_SCAN_PAGES * MAX_PAGE_SIZE} notes, newest first, and returns a next_cursor to scan further when it stops there.`,
+      inputSchema: {
+        term: z.string().min(2).describe("Text to look for in note bodies (case-insensitive)"),
+        ...linkParams,
+        format: formatParam,
+        limit: z.number().int().min(1).optional().describe("Return at most this many notes and a next_cursor for the rest (default: 50)"),
+        cursor: z.string().optional().describe("next_cursor from a previous call with the same arguments, to continue where it stopped")
+      },
+      outputSchema: {
+        ...pageShape,
+        notes: z.array(noteSchema)
+      }
+    },
+    async ({ term, deal_id, person_id, org_id, lead_id, format, limit, cursor }) => {
+      try {
+        const position = cursor ? decodeCursor(cursor) : undefined;
+        if (position && position.mode !== 'offset') {
+          throw new Error("This cursor does not belong to search-notes");
+        }
+
+        // The notes API has no text search, so bodies are matched here, a capped number of pages per call
+        const needle = term.trim().toLowerCase();
+        const result = await collectOffsetPages({
+          path: '/v1/notes',
+          query: { ...withoutUndefined({ deal_id, person_id, org_id, lead_id }), sort: 'add_time DESC' },
+          start: position?.offset,
+          limit: limit ?? 50,
+          maxPages: MAX_SCAN_PAGES,
+          accept: note => convertHtml(note.content, 'text').toLowerCase().includes(needle)
+            ? presentNote(note, format || 'markdown')
+            : null
+        });
+
+        const stopped = result.stoppedEarly ? stoppedScanMessage(result.items.length, 'notes', result.pages) : null;
+        return structuredResult(stopped ?? pageSummary(result.items.length, 'notes', result.next !== null), {
+          ...describePage(result.items.length, result.next, 'notes', cursor !== undefined),
+          ...(stopped ? { message: stopped } : {}),
+          retries: result.retries,
+          notes: result.items
+        });
+      } catch (error) {
+        logger.error(`Error searching notes for "${term}"`, { error });
+        return errorResult("searching notes", error);
+      }
+    }
+  );
+
+  // Add a note
+  guard.mutatingTool(
+    "add-note",
+    "Add a note to a deal, person, organization and/or lead",
+    {
+      content: z.string().min(1).describe("Note body; HTML is allowed, plain line breaks are kept"),
+      ...linkParams,
+      pinned: z.boolean().optional().describe("Pin the note to every record it is attached to")
+    },
+    {
+      action: () => "adding note",
+      output: { note: noteSchema },
+      plan: async ({ content, deal_id, person_id, org_id, lead_id, pinned }) => {
+        if (deal_id === undefined && person_id === undefined && org_id === undefined && lead_id === undefined) {
+          throw new Error("One of deal_id, person_id, org_id or lead_id is required");
+        }
+
+        // Pipedrive renders note bodies as HTML
+        const body = /<[a-z][^>]*>/i.test(content) ? content : content.replace(/\r?\n/g, '<br>');
+        const flag = pinned ? 1 : undefined;
+        return {
+          request: {
+            method: 'POST',
+            path: '/v1/notes',
+            body: withoutUndefined({
+              content: body,
+              deal_id,
+              person_id,
+              org_id,
+              lead_id,
+              pinned_to_deal_flag: deal_id !== undefined ? flag : undefined,
+              pinned_to_person_flag: person_id !== undefined ? flag : undefined,
+              pinned_to_organization_flag: org_id !== undefined ? flag : undefined,
+              pinned_to_lead_flag: lead_id !== undefined ? flag : undefined
+            })
+          },
+          present: response => ({ note: presentNote(response.data, 'markdown') })
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,141 @@
+// Organization tools: list, get, history and search organizations
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createRequestStats } from "../api.js";
+import { budgetItems, countBy } from "../budget.js";
+import { historyInputShape, historyOutputShape, readHistory } from "../changelog.js";
+import { customFields, pipedriveClients } from "../clients.js";
+import { rawCustomFieldsParam } from "../customFields.js";
+import { errorResult } from "../errors.js";
+import { decodeCursor, describePage } from "../listQuery.js";
+import { logger } from "../logger.js";
+import { organizationSchema, pageShape, pageSummary, searchResultsShape, structuredResult, summarizedSchema } from "../output.js";
+import { collectCursorPages } from "../pagination.js";
+
+// Aggregates returned instead of the full list when it goes over the response budget
+function organizationStats(organizations: Record<string, any>[]): Record<string, unknown> {
+  return {
+    by_owner_id: countBy(organizations, 'owner_id')
+  };
+}
+
+export function registerOrganizationTools(server: McpServer): void {
+  // Get organizations with cursor pagination
+  server.registerTool(
+    "get-organizations",
+    {
+      description: "Get organizations from Pipedrive including custom fields. Without a limit every organization is returned; with a limit the result is truncated and includes a next_cursor to resume from.",
+      inputSchema: {
+        limit: z.number().int().min(1).optional().describe("Return at most this many organizations and a next_cursor for the rest"),
+        cursor: z.string().optional().describe("next_cursor from a previous call, to continue where it stopped"),
+        raw_custom_fields: rawCustomFieldsParam
+      },
+      outputSchema: {
+        ...pageShape,
+        organizations: z.array(organizationSchema),
+        summarized: summarizedSchema.optional()
+      }
+    },
+    async ({ limit, cursor, raw_custom_fields }) => {
+      try {
+        const position = cursor ? decodeCursor(cursor) : undefined;
+        if (position && position.mode !== 'api') {
+          throw new Error("This cursor does not belong to get-organizations");
+        }
+
+        const result = await collectCursorPages({
+          path: '/v2/organizations',
+          start: position,
+          limit,
+          accept: organization => raw_custom_fields ? organization : customFields.resolveRecord('organization', organization)
+        });
+
+        logger.debug("Fetched organizations", { count: result.items.length, pages: result.pages, retries: result.retries });
+
+        const budgeted = budgetItems(result.items, 'organizations', () => organizationStats(result.items));
+
+        return structuredResult(pageSummary(result.items.length, 'organizations', result.next !== null, budgeted.summarized), {
+          ...describePage(result.items.length, result.next, 'organizations', cursor !== undefined),
+          returned_count: budgeted.items.length,
+          retries: result.retries,
+          organizations: budgeted.items,
+          ...(budgeted.summarized ? { summarized: budgeted.summarized } : {})
+        });
+      } catch (error) {
+        logger.error("Error fetching organizations", { error });
+        return errorResult("fetching organizations", error);
+      }
+    }
+  );
+
+  // Get organization by ID
+  server.registerTool(
+    "get-organization",
+    {
+      description: "Get a specific organization by ID including custom fields",
+      inputSchema: {
+        organizationId: z.number().describe("Pipedrive organization ID"),
+        raw_custom_fields: rawCustomFieldsParam
+      },
+      outputSchema: { organization: organizationSchema }
+    },
+    async ({ organizationId, raw_custom_fields }) => {
+      try {
+        const response = await pipedriveClients().organizationsApi.getOrganization({ id: organizationId });
+        const organization = raw_custom_fields ? response.data : await customFields.resolveRecord('organization', response.data);
+        return structuredResult(`Organization ${organizationId}: ${organization.name}`, { organization });
+      } catch (error) {
+        logger.error(`Error fetching organization ${organizationId}`, { error });
+        return errorResult(`fetching organization ${organizationId}`, error);
+      }
+    }
+  );
+
+  // Get organization history/changelog
+  server.registerTool(
+    "get-organization-history",
+    {
+      description: "Get the change history of an organization: every field change with who made it and when, custom fields by name, e.g. who changed the owner or the address. Filter by field, user and time range, page with limit/cursor or set all_pages to follow the pages in one call. view \"timeline\" instead merges field changes, activities and notes into one line each in chronological order.",
+      inputSchema: {
+        organizationId: z.number().describe("Pipedrive organization ID"),
+        ...historyInputShape
+      },
+      outputSchema: {
+        org_id: z.number(),
+        ...historyOutputShape
+      }
+    },
+    async ({ organizationId, ...args }) => {
+      try {
+        const history = await readHistory({ entity: 'organization', id: organizationId, path: `/v1/organizations/${organizationId}/changelog`, link: 'org_id' }, args, createRequestStats());
+        return structuredResult(`Organization ${organizationId}: ${history.summary}`, { org_id: organizationId, ...history.data });
+      } catch (error) {
+        logger.error(`Error fetching organization ${organizationId} history`, { error });
+        return errorResult(`fetching organization ${organizationId} history`, error);
+      }
+    }
+  );
+
+  // Search organizations
+  server.registerTool(
+    "search-organizations",
+    {
+      description: "Search organizations by term",
+      inputSchema: {
+        term: z.string().describe("Search term for organizations")
+      },
+      outputSchema: searchResultsShape
+    },
+    async ({ term }) => {
+      try {
+        const response = await pipedriveClients().organizationsApi.searchOrganization({ term });
+        const items = response.data?.items ?? [];
+        return structuredResult(`${items.length} organizations match "${term}"`, { items });
+      } catch (error) {
+        logger.error(`Error searching organizations with term "${term}"`, { error });
+        return errorResult("searching organizations", error);
+      }
+    }
+  );
+}
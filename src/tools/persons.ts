@@ -0,0 +1,142 @@
+// Person tools: list, get, history and search persons
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createRequestStats } from "../api.js";
+import { budgetItems, countBy } from "../budget.js";
+import { historyInputShape, historyOutputShape, readHistory } from "../changelog.js";
+import { customFields, pipedriveClients } from "../clients.js";
+import { rawCustomFieldsParam } from "../customFields.js";
+import { errorResult } from "../errors.js";
+import { decodeCursor, describePage } from "../listQuery.js";
+import { logger } from "../logger.js";
+import { pageShape, pageSummary, personSchema, searchResultsShape, structuredResult, summarizedSchema } from "../output.js";
+import { collectCursorPages } from "../pagination.js";
+
+// Aggregates returned instead of the full list when it goes over the response budget
+function personStats(persons: Record<string, any>[]): Record<string, unknown> {
+  return {
+    by_owner_id: countBy(persons, 'owner_id'),
+    by_org_id: countBy(persons, 'org_id')
+  };
+}
+
+export function registerPersonTools(server: McpServer): void {
+  // Get persons with cursor pagination
+  server.registerTool(
+    "get-persons",
+    {
+      description: "Get persons from Pipedrive including custom fields. Without a limit every person is returned; with a limit the result is truncated and includes a next_cursor to resume from.",
+      inputSchema: {
+        limit: z.number().int().min(1).optional().describe("Return at most this many persons and a next_cursor for the rest"),
+        cursor: z.string().optional().describe("next_cursor from a previous call, to continue where it stopped"),
+        raw_custom_fields: rawCustomFieldsParam
+      },
+      outputSchema: {
+        ...pageShape,
+        persons: z.array(personSchema),
+        summarized: summarizedSchema.optional()
+      }
+    },
+    async ({ limit, cursor, raw_custom_fields }) => {
+      try {
+        const position = cursor ? decodeCursor(cursor) : undefined;
+        if (position && position.mode !== 'api') {
+          throw new Error("This cursor does not belong to get-persons");
+        }
+
+        const result = await collectCursorPages({
+          path: '/v2/persons',
+          start: position,
+          limit,
+          accept: person => raw_custom_fields ? person : customFields.resolveRecord('person', person)
+        });
+
+        logger.debug("Fetched persons", { count: result.items.length, pages: result.pages, retries: result.retries });
+
+        const budgeted = budgetItems(result.items, 'persons', () => personStats(result.items));
+
+        return structuredResult(pageSummary(result.items.length, 'persons', result.next !== null, budgeted.summarized), {
+          ...describePage(result.items.length, result.next, 'persons', cursor !== undefined),
+          returned_count: budgeted.items.length,
+          retries: result.retries,
+          persons: budgeted.items,
+          ...(budgeted.summarized ? { summarized: budgeted.summarized } : {})
+        });
+      } catch (error) {
+        logger.error("Error fetching persons", { error });
+        return errorResult("fetching persons", error);
+      }
+    }
+  );
+
+  // Get person by ID
+  server.registerTool(
+    "get-person",
+    {
+      description: "Get a specific person by ID including custom fields",
+      inputSchema: {
+        personId: z.number().describe("Pipedrive person ID"),
+        raw_custom_fields: rawCustomFieldsParam
+      },
+      outputSchema: { person: personSchema }
+    },
+    async ({ personId, raw_custom_fields }) => {
+      try {
+        const response = await pipedriveClients().personsApi.getPerson({ id: personId });
+        const person = raw_custom_fields ? response.data : await customFields.resolveRecord('person', response.data);
+        return structuredResult(`Person ${personId}: ${person.name}`, { person });
+      } catch (error) {
+        logger.error(`Error fetching person ${personId}`, { error });
+        return errorResult(`fetching person ${personId}`, error);
+      }
+    }
+  );
+
+  // Get person history/changelog
+  server.registerTool(
+    "get-person-history",
+    {
+      description: "Get the change history of a person: every field change with who made it and when, custom fields by name, e.g. who changed the owner or overwrote an email. Filter by field, user and time range, page with limit/cursor or set all_pages to follow the pages in one call. view \"timeline\" instead merges field changes, activities and notes into one line each in chronological order.",
+      inputSchema: {
+        personId: z.number().describe("Pipedrive person ID"),
+        ...historyInputShape
+      },
+      outputSchema: {
+        person_id: z.number(),
+        ...historyOutputShape
+      }
+    },
+    async ({ personId, ...args }) => {
+      try {
+        const history = await readHistory({ entity: 'person', id: personId, path: `/v1/persons/${personId}/changelog`, link: 'person_id' }, args, createRequestStats());
+        return structuredResult(`Person ${personId}: ${history.summary}`, { person_id: personId, ...history.data });
+      } catch (error) {
+        logger.error(`Error fetching person ${personId} history`, { error });
+        return errorResult(`fetching person ${personId} history`, error);
+      }
+    }
+  );
+
+  // Search persons
+  server.registerTool(
+    "search-persons",
+    {
+      description: "Search persons by term",
+      inputSchema: {
+        term: z.string().describe("Search term for persons")
+      },
+      outputSchema: searchResultsShape
+    },
+    async ({ term }) => {
+      try {
+        const response = await pipedriveClients().personsApi.searchPersons({ term });
+        const items = response.data?.items ?? [];
+        return structuredResult(`${items.length} persons match "${term}"`, { items });
+      } catch (error) {
+        logger.error(`Error searching persons with term "${term}"`, { error });
+        return errorResult("searching persons", error);
+      }
+    }
+  );
+}
@@ -0,0 +1,91 @@
+// Pipeline tools: list and get pipelines, and list stages
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createRequestStats } from "../api.js";
+import { pipedriveClients } from "../clients.js";
+import { errorResult } from "../errors.js";
+import { logger } from "../logger.js";
+import { pageShape, pipelineSchema, stageSchema, structuredResult } from "../output.js";
+import { fetchPipelines, fetchStagesWithPipelineNames } from "../pipelines.js";
+
+export function registerPipelineTools(server: McpServer): void {
+  // Get all pipelines
+  server.registerTool(
+    "get-pipelines",
+    {
+      description: "Get all pipelines from Pipedrive",
+      inputSchema: {},
+      outputSchema: {
+        total_count: z.number(),
+        retries: pageShape.retries,
+        pipelines: z.array(pipelineSchema)
+      }
+    },
+    async () => {
+      try {
+        const stats = createRequestStats();
+        const pipelines = await fetchPipelines(stats);
+        return structuredResult(`${pipelines.length} pipelines`, {
+          total_count: pipelines.length,
+          retries: stats.retries,
+          pipelines
+        });
+      } catch (error) {
+        logger.error("Error fetching pipelines", { error });
+        return errorResult("fetching pipelines", error);
+      }
+    }
+  );
+
+  // Get pipeline by ID
+  server.registerTool(
+    "get-pipeline",
+    {
+      description: "Get a specific pipeline by ID",
+      inputSchema: {
+        pipelineId: z.number().describe("Pipedrive pipeline ID")
+      },
+      outputSchema: { pipeline: pipelineSchema }
+    },
+    async ({ pipelineId }) => {
+      try {
+        const response = await pipedriveClients().pipelinesApi.getPipeline({ id: pipelineId });
+        const pipeline = response.data as Record<string, any>;
+        return structuredResult(`Pipeline ${pipelineId}: ${pipeline.name}`, { pipeline });
+      } catch (error) {
+        logger.error(`Error fetching pipeline ${pipelineId}`, { error });
+        return errorResult(`fetching pipeline ${pipelineId}`, error);
+      }
+    }
+  );
+
+  // Get all stages
+  server.registerTool(
+    "get-stages",
+    {
+      description: "Get all stages from Pipedrive",
+      inputSchema: {},
+      outputSchema: {
+        total_count: z.number(),
+        retries: pageShape.retries,
+        stages: z.array(stageSchema)
+      }
+    },
+    async () => {
+      try {
+        const stats = createRequestStats();
+        const allStages = await fetchStagesWithPipelineNames(stats);
+
+        return structuredResult(`${allStages.length} stages`, {
+          total_count: allStages.length,
+          retries: stats.retries,
+          stages: allStages
+        });
+      } catch (error) {
+        logger.error("Error fetching stages", { error });
+        return errorResult("fetching stages", error);
+      }
+    }
+  );
+}
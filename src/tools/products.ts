@@ -0,0 +1,321 @@
+// Product tools: search, list and get products, and manage the products attached to deals
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createRequestStats, pipedriveRequest, RequestStats, withoutUndefined } from "../api.js";
+import { budgetItems, countBy } from "../budget.js";
+import { errorResult } from "../errors.js";
+import { ToolGuard } from "../guard.js";
+import { decodeCursor, describePage } from "../listQuery.js";
+import { logger } from "../logger.js";
+import { dealProductSchema, pageShape, pageSummary, productSchema, searchResultsShape, structuredResult, summarizedSchema } from "../output.js";
+import { collectCursorPages } from "../pagination.js";
+
+// The deal's value as Pipedrive recalculated it, next to the line items it is made of
+const dealValueSchema = z.object({
+  deal_id: z.number(),
+  title: z.string().nullish(),
+  value: z.number().nullish(),
+  currency: z.string().nullish(),
+  product_count: z.number(),
+  products_total: z.number().describe("Sum of the line totals of the enabled products")
+});
+
+const lineItemParams = {
+  quantity: z.number().positive().optional().describe("Quantity"),
+  discount: z.number().min(0).optional().describe("Discount, as a percentage or an amount depending on discount_type"),
+  discount_type: z.enum(['percentage', 'amount']).optional().describe("How discount is applied (default: percentage)"),
+  tax: z.number().min(0).optional().describe("Tax percentage"),
+  tax_method: z.enum(['exclusive', 'inclusive', 'none']).optional().describe("Whether tax is added to the price, included in it or not applied"),
+  comments: z.string().optional().describe("Comments on the line item"),
+  is_enabled: z.boolean().optional().describe("Whether the line item counts towards the deal value")
+};
+
+function fetchDealProducts(dealId: number, stats?: RequestStats): Promise<any[]> {
+  return collectCursorPages({ path: `/v2/deals/${dealId}/products`, stats }).then(result => result.items);
+}
+
+async function fetchDealProduct(dealId: number, attachmentId: number, stats?: RequestStats): Promise<Record<string, any>> {
+  const found = (await fetchDealProducts(dealId, stats)).find(item => item.id === attachmentId);
+  if (!found) {
+    throw new Error(`Deal ${dealId} has no product attachment ${attachmentId}; get-deal-products lists them`);
+  }
+  return found;
+}
+
+// A deal's line items and its value, which Pipedrive recalculates from them after every change
+async function loadDealProducts(dealId: number, stats?: RequestStats) {
+  const [deal, products] = await Promise.all([
+    pipedriveRequest({ method: 'GET', path: `/v2/deals/${dealId}` }, stats).then(response => response.data),
+    fetchDealProducts(dealId, stats)
+  ]);
+  const total = products
+    .filter(item => item.is_enabled !== false && typeof item.sum === 'number')
+    .reduce((sum, item) => sum + item.sum, 0);
+  const dealValue: z.infer<typeof dealValueSchema> = {
+    deal_id: dealId,
+    title: deal.title,
+    value: deal.value,
+    currency: deal.currency,
+    product_count: products.length,
+    products_total: Math.round(total * 100) / 100
+  };
+  return { deal_value: dealValue, products };
+}
+
+// The deal's value after a write changed its line items, or null when it could not be read; the write succeeded either way
+async function dealValueAfterWrite(dealId: number, stats: RequestStats): Promise<z.infer<typeof dealValueSchema> | null> {
+  try {
+    return (await loadDealProducts(dealId, stats)).deal_value;
+  } catch (error) {
+    logger.warn(`Could not read the value of deal ${dealId} after changing its products`, { error });
+    return null;
+  }
+}
+
+// Output of the write tools: the deal value is a best-effort extra
+const writeOutput = {
+  retries: pageShape.retries,
+  deal_value: dealValueSchema.nullable().describe("The deal's recalculated value; null when it could not be read after the change")
+};
+
+function checkDiscount(discount: number | undefined, discountType: string | undefined): void {
+  if (discount !== undefined && discountType !== 'amount' && discount > 100) {
+    throw new Error("A percentage discount can be at most 100; set discount_type to amount for a fixed discount");
+  }
+}
+
+export function registerProductTools(server: McpServer, guard: ToolGuard): void {
+  // Search products
+  server.registerTool(
+    "search-products",
+    {
+      description: "Search products by name, code or custom field values",
+      inputSchema: {
+        term: z.string().min(2).describe("Search term for products (at least 2 characters)"),
+        exact_match: z.boolean().optional().describe("Only match the whole term exactly, case-insensitively")
+      },
+      outputSchema: searchResultsShape
+    },
+    async ({ term, exact_match }) => {
+      try {
+        const response = await pipedriveRequest({ method: 'GET', path: '/v2/products/search', query: { term, exact_match } });
+        const items = response.data?.items ?? [];
+        return structuredResult(`${items.length} products match "${term}"`, { items });
+      } catch (error) {
+        logger.error(`Error searching products with term "${term}"`, { error });
+        return errorResult("searching products", error);
+      }
+    }
+  );
+
+  // Get products with cursor pagination
+  server.registerTool(
+    "get-products",
+    {
+      description: "Get products from Pipedrive with their prices per currency. Without a limit every product is returned; with a limit the result is truncated and includes a next_cursor to resume from.",
+      inputSchema: {
+        owner_id: z.number().optional().describe("Only products owned by this user ID"),
+        limit: z.number().int().min(1).optional().describe("Return at most this many products and a next_cursor for the rest"),
+        cursor: z.string().optional().describe("next_cursor from a previous call, to continue where it stopped")
+      },
+      outputSchema: {
+        ...pageShape,
+        products: z.array(productSchema),
+        summarized: summarizedSchema.optional()
+      }
+    },
+    async ({ owner_id, limit, cursor }) => {
+      try {
+        const position = cursor ? decodeCursor(cursor) : undefined;
+        if (position && position.mode !== 'api') {
+          throw new Error("This cursor does not belong to get-products");
+        }
+
+        const result = await collectCursorPages({
+          path: '/v2/products',
+          query: { owner_id },
+          start: position,
+          limit
+        });
+
+        logger.debug("Fetched products", { count: result.items.length, pages: result.pages, retries: result.retries });
+
+        const budgeted = budgetItems(result.items, 'products', () => ({
+          by_category: countBy(result.items, 'category'),
+          by_owner_id: countBy(result.items, 'owner_id')
+        }));
+
+        return structuredResult(pageSummary(result.items.length, 'products', result.next !== null, budgeted.summarized), {
+          ...describePage(result.items.length, result.next, 'products', cursor !== undefined),
+          returned_count: budgeted.items.length,
+          retries: result.retries,
+          products: budgeted.items,
+          ...(budgeted.summarized ? { summarized: budgeted.summarized } : {})
+        });
+      } catch (error) {
+        logger.error("Error fetching products", { error });
+        return errorResult("fetching products", error);
+      }
+    }
+  );
+
+  // Get product by ID
+  server.registerTool(
+    "get-product",
+    {
+      description: "Get a specific product by ID with its prices per currency",
+      inputSchema: {
+        productId: z.number().describe("Pipedrive product ID")
+      },
+      outputSchema: { product: productSchema }
+    },
+    async ({ productId }) => {
+      try {
+        const response = await pipedriveRequest({ method: 'GET', path: `/v2/products/${productId}` });
+        const product = response.data;
+        return structuredResult(`Product ${productId}: ${product.name}`, { product });
+      } catch (error) {
+        logger.error(`Error fetching product ${productId}`, { error });
+        return errorResult(`fetching product ${productId}`, error);
+      }
+    }
+  );
+
+  // List the products attached to a deal
+  server.registerTool(
+    "get-deal-products",
+    {
+      description: "List the products attached to a deal with their price, quantity, discount, tax and line total, and the deal's value",
+      inputSchema: {
+        dealId: z.number().describe("Pipedrive deal ID")
+      },
+      outputSchema: {
+        retries: pageShape.retries,
+        deal_value: dealValueSchema,
+        products: z.array(dealProductSchema)
+      }
+    },
+    async ({ dealId }) => {
+      try {
+        const stats = createRequestStats();
+        const { deal_value, products } = await loadDealProducts(dealId, stats);
+        return structuredResult(
+          `Deal ${dealId} has ${products.length} products; deal value ${deal_value.value ?? 0} ${deal_value.currency ?? ''}`.trim(),
+          { retries: stats.retries, deal_value, products }
+        );
+      } catch (error) {
+        logger.error(`Error fetching the products of deal ${dealId}`, { error });
+        return errorResult(`fetching the products of deal ${dealId}`, error);
+      }
+    }
+  );
+
+  // Attach a product to a deal
+  guard.mutatingTool(
+    "add-deal-product",
+    "Attach a product to a deal as a line item. Without item_price the product's price in the deal's currency is used. Returns the deal's recalculated value when it can be read.",
+    {
+      dealId: z.number().describe("Pipedrive deal ID"),
+      product_id: z.number().describe("ID of the product to attach"),
+      item_price: z.number().min(0).optional().describe("Price per unit (default: the product's price in the deal's currency)"),
+      ...lineItemParams
+    },
+    {
+      action: ({ dealId, product_id }) => `adding product ${product_id} to deal ${dealId}`,
+      output: { deal_product: dealProductSchema, ...writeOutput },
+      plan: async ({ dealId, product_id, item_price, quantity, ...fields }) => {
+        checkDiscount(fields.discount, fields.discount_type);
+        const stats = createRequestStats();
+        let price = item_price;
+        if (price === undefined) {
+          const [deal, product] = await Promise.all([
+            pipedriveRequest({ method: 'GET', path: `/v2/deals/${dealId}` }, stats).then(response => response.data),
+            pipedriveRequest({ method: 'GET', path: `/v2/products/${product_id}` }, stats).then(response => response.data)
+          ]);
+          price = (product.prices || []).find((candidate: any) => candidate.currency === deal.currency)?.price;
+          if (price === undefined) {
+            throw new Error(`Product ${product_id} has no price in ${deal.currency}, the currency of deal ${dealId}; give item_price`);
+          }
+        }
+
+        return {
+          request: {
+            method: 'POST',
+            path: `/v2/deals/${dealId}/products`,
+            body: withoutUndefined({ product_id, item_price: price, quantity: quantity ?? 1, ...fields })
+          },
+          present: async response => {
+            const deal_value = await dealValueAfterWrite(dealId, stats);
+            return { deal_product: response.data, retries: stats.retries, deal_value };
+          }
+        };
+      }
+    }
+  );
+
+  // Change a product attached to a deal
+  guard.mutatingTool(
+    "update-deal-product",
+    "Change the price, quantity, discount, tax or comments of a product attached to a deal. Returns the deal's recalculated value when it can be read.",
+    {
+      dealId: z.number().describe("Pipedrive deal ID"),
+      product_attachment_id: z.number().describe("ID of the line item, as get-deal-products lists it"),
+      item_price: z.number().min(0).optional().describe("Price per unit"),
+      ...lineItemParams
+    },
+    {
+      action: ({ dealId, product_attachment_id }) => `updating product attachment ${product_attachment_id} of deal ${dealId}`,
+      output: { deal_product: dealProductSchema, ...writeOutput },
+      plan: async ({ dealId, product_attachment_id, ...fields }) => {
+        const changes = withoutUndefined(fields);
+        if (Object.keys(changes).length === 0) {
+          throw new Error("No fields to update were given");
+        }
+        checkDiscount(fields.discount, fields.discount_type);
+
+        const stats = createRequestStats();
+        return {
+          request: {
+            method: 'PATCH',
+            path: `/v2/deals/${dealId}/products/${product_attachment_id}`,
+            body: changes
+          },
+          before: () => fetchDealProduct(dealId, product_attachment_id, stats),
+          present: async response => {
+            const deal_value = await dealValueAfterWrite(dealId, stats);
+            return { deal_product: response.data, retries: stats.retries, deal_value };
+          }
+        };
+      }
+    }
+  );
+
+  // Detach a product from a deal
+  guard.mutatingTool(
+    "remove-deal-product",
+    "Remove a product from a deal. Returns the deal's recalculated value when it can be read.",
+    {
+      dealId: z.number().describe("Pipedrive deal ID"),
+      product_attachment_id: z.number().describe("ID of the line item, as get-deal-products lists it")
+    },
+    {
+      action: ({ dealId, product_attachment_id }) => `removing product attachment ${product_attachment_id} from deal ${dealId}`,
+      output: writeOutput,
+      plan: async ({ dealId, product_attachment_id }) => {
+        const stats = createRequestStats();
+        return {
+          request: {
+            method: 'DELETE',
+            path: `/v2/deals/${dealId}/products/${product_attachment_id}`
+          },
+          before: () => fetchDealProduct(dealId, product_attachment_id, stats),
+          present: async () => {
+            const deal_value = await dealValueAfterWrite(dealId, stats);
+            return { retries: stats.retries, deal_value };
+          }
+        };
+      }
+    }
+  );
+}
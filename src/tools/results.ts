@@ -0,0 +1,50 @@
+// Result tools: page through list results that went over the response budget
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { readStoredResult } from "../budget.js";
+import { errorResult } from "../errors.js";
+import { logger } from "../logger.js";
+import { structuredResult } from "../output.js";
+
+export function registerResultTools(server: McpServer): void {
+  // Read part of a result that was cut to fit the response budget
+  server.registerTool(
+    "get-result-page",
+    {
+      description: "Read more items of a list result that was too large to return at once. Pass the result_handle from the summarized part of that result and the offset to start from.",
+      inputSchema: {
+        result_handle: z.string().describe("result_handle from a summarized list result"),
+        offset: z.number().int().min(0).describe("Index of the first item to return; the original call returned the items before summarized.returned_items"),
+        limit: z.number().int().min(1).optional().describe("Return at most this many items (default: PIPEDRIVE_PREVIEW_ITEMS); fewer are returned when they would go over the response budget")
+      },
+      outputSchema: {
+        result_handle: z.string(),
+        offset: z.number(),
+        returned_count: z.number(),
+        total_items: z.number(),
+        next_offset: z.number().nullable().describe("offset for the next call, null after the last item"),
+        items: z.array(z.object({}).passthrough())
+      }
+    },
+    async ({ result_handle, offset, limit }) => {
+      try {
+        const page = readStoredResult(result_handle, offset, limit);
+        return structuredResult(
+          `Returned ${page.noun} ${offset + 1}-${offset + page.items.length} of ${page.total_items}${page.next_offset === null ? '' : `; continue with offset ${page.next_offset}`}`,
+          {
+            result_handle,
+            offset,
+            returned_count: page.items.length,
+            total_items: page.total_items,
+            next_offset: page.next_offset,
+            items: page.items
+          }
+        );
+      } catch (error) {
+        logger.error(`Error reading result ${result_handle}`, { error });
+        return errorResult(`reading result ${result_handle}`, error);
+      }
+    }
+  );
+}
@@ -0,0 +1,36 @@
+// Search across all item types
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { pipedriveClients } from "../clients.js";
+import { errorResult } from "../errors.js";
+import { logger } from "../logger.js";
+import { searchResultsShape, structuredResult } from "../output.js";
+
+export function registerSearchTools(server: McpServer): void {
+  // Generic search across item types
+  server.registerTool(
+    "search-all",
+    {
+      description: "Search across all item types (deals, persons, organizations, etc.)",
+      inputSchema: {
+        term: z.string().describe("Search term"),
+        itemTypes: z.string().optional().describe("Comma-separated list of item types to search (deal,person,organization,product,file,activity,lead)")
+      },
+      outputSchema: searchResultsShape
+    },
+    async ({ term, itemTypes }) => {
+      try {
+        const response = await pipedriveClients().itemSearchApi.searchItem({ 
+          term,
+          item_types: itemTypes as any
+        });
+        const items = response.data?.items ?? [];
+        return structuredResult(`${items.length} items match "${term}"`, { items });
+      } catch (error) {
+        logger.error(`Error performing search with term "${term}"`, { error });
+        return errorResult("performing search", error);
+      }
+    }
+  );
+}
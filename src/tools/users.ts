@@ -0,0 +1,35 @@
+// User tools: list the company's users, to put names to owner and user IDs
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { errorResult } from "../errors.js";
+import { logger } from "../logger.js";
+import { structuredResult } from "../output.js";
+import { fetchUsers } from "../users.js";
+
+export function registerUserTools(server: McpServer): void {
+  // Get all users
+  server.registerTool(
+    "get-users",
+    {
+      description: "Get the users of the Pipedrive company with their IDs, names and emails, e.g. to name the owner_id or user_id values other tools return",
+      inputSchema: {},
+      outputSchema: {
+        users: z.array(z.object({
+          id: z.number(),
+          name: z.string(),
+          email: z.string().optional()
+        }))
+      }
+    },
+    async () => {
+      try {
+        const users = await fetchUsers();
+        return structuredResult(`Returned ${users.length} users`, { users });
+      } catch (error) {
+        logger.error("Error fetching users", { error });
+        return errorResult("fetching users", error);
+      }
+    }
+  );
+}
@@ -0,0 +1,29 @@
+// User lookup, to show the names of owners and of the users who made changes
+
+import { pipedriveRequest, RequestStats } from "./api.js";
+import { cached } from "./cache.js";
+import { logger } from "./logger.js";
+
+export interface User {
+  id: number;
+  name: string;
+  email?: string;
+}
+
+// Fetch every user of the company, cached
+export function fetchUsers(stats?: RequestStats): Promise<User[]> {
+  return cached('users', 'all', async () => {
+    const response = await pipedriveRequest({ method: 'GET', path: '/v1/users' }, stats);
+    return (response.data || []).map((user: any) => ({ id: user.id, name: user.name, email: user.email }));
+  });
+}
+
+// User names by ID; empty when the users can't be listed, so names are only a nicety
+export async function fetchUserNames(stats?: RequestStats): Promise<Map<number, string>> {
+  try {
+    return new Map((await fetchUsers(stats)).map(user => [user.id, user.name]));
+  } catch (error) {
+    logger.warn("Could not load user names", { error });
+    return new Map();
+  }
+}
@@ -0,0 +1,366 @@
+// Pipedrive webhooks: registration, an authenticated receiver, and a log of
+// the recent events they reported
+
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { Account, listAccounts } from "./accounts.js";
+import { pipedriveRequest } from "./api.js";
+import { currentCredentials, PipedriveCredentials, withCredentials } from "./credentials.js";
+import { logger } from "./logger.js";
+
+export const WEBHOOK_ENTITIES = ['deal', 'person', 'organization', 'activity'] as const;
+
+export type WebhookEntity = typeof WEBHOOK_ENTITIES[number];
+
+export const WEBHOOK_ACTIONS = ['create', 'change', 'delete'] as const;
+
+export type WebhookAction = typeof WEBHOOK_ACTIONS[number];
+
+// Webhook payloads larger than this are rejected
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface WebhookConfig {
+  // Public URL Pipedrive posts events to; its path is where the receiver listens
+  url: string;
+  // Basic auth credentials Pipedrive is told to send with every event
+  user: string;
+  password: string;
+  // Address of the standalone receiver used with the stdio transport
+  host: string;
+  port: number;
+  // Events kept in the log; older ones are dropped first
+  logSize: number;
+}
+
+export interface WebhookEvent {
+  id: string;
+  received_at: string;
+  // When the change happened in Pipedrive
+  time: string | null;
+  action: WebhookAction;
+  entity: WebhookEntity;
+  entity_id: number | null;
+  user_id: number | null;
+  // Title, name or subject of the record
+  label: string | null;
+  // Fields that changed, with their previous and current values
+  changes: Record<string, { previous: unknown; current: unknown }>;
+  // Account the event belongs to
+  account: string;
+}
+
+// Returns null when webhooks are not configured; throws when they are only partly configured
+export function loadWebhookConfig(env: NodeJS.ProcessEnv): WebhookConfig | null {
+  const url = env.PIPEDRIVE_WEBHOOK_URL?.trim();
+  if (!url) {
+    return null;
+  }
+  const password = env.PIPEDRIVE_WEBHOOK_PASSWORD?.trim();
+  if (!password) {
+    throw new Error("PIPEDRIVE_WEBHOOK_PASSWORD is required when PIPEDRIVE_WEBHOOK_URL is set");
+  }
+  if (!/^https?:\/\//i.test(url)) {
+    throw new Error("PIPEDRIVE_WEBHOOK_URL must be an http(s) URL Pipedrive can reach");
+  }
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    url,
+    user: env.PIPEDRIVE_WEBHOOK_USER?.trim() || 'pipedrive',
+    password,
+    host: env.PIPEDRIVE_WEBHOOK_HOST?.trim() || '127.0.0.1',
+    port: number(env.PIPEDRIVE_WEBHOOK_PORT, 3001),
+    logSize: number(env.PIPEDRIVE_WEBHOOK_LOG_SIZE, 1000)
+  };
+}
+
+const events: WebhookEvent[] = [];
+const listeners = new Set<(event: WebhookEvent) => void>();
+let maxEvents = 0;
+// The OAuth default credentials, when they act for the server instead of a configured account
+let oauthAccount: Account | null = null;
+// Since when every event received is in the log
+let completeSince: string | null = null;
+
+// Whether a webhook receiver was started, so events can arrive
+export function webhooksEnabled(): boolean {
+  return maxEvents > 0;
+}
+
+// Calls `listener` for every event received from now on; returns a function that stops it
+export function onWebhookEvent(listener: (event: WebhookEvent) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export interface EventFilter {
+  account: string;
+  since?: number;
+  entity?: WebhookEntity;
+  entity_id?: number;
+  action?: WebhookAction;
+  user_id?: number;
+}
+
+// Logged events of one account matching the filter, newest first
+export function recentEvents(filter: EventFilter): WebhookEvent[] {
+  return events
+    .filter(event =>
+      event.account === filter.account &&
+      (filter.since === undefined || Date.parse(event.time ?? event.received_at) >= filter.since) &&
+      (!filter.entity || event.entity === filter.entity) &&
+      (filter.entity_id === undefined || event.entity_id === filter.entity_id) &&
+      (!filter.action || event.action === filter.action) &&
+      (filter.user_id === undefined || event.user_id === filter.user_id))
+    .reverse();
+}
+
+// Since when the log is complete: the receiver's start, or the oldest event once older ones were dropped
+export function eventLogStart(): string | null {
+  return completeSince;
+}
+
+// Accounts webhooks are registered and events logged for
+function webhookAccounts(): Account[] {
+  const { accounts } = listAccounts();
+  return oauthAccount ? [...accounts, oauthAccount] : accounts;
+}
+
+// Name of the server's account whose credentials are in scope, which events are logged under
+export function currentAccountName(): string | null {
+  const id = currentCredentials().id;
+  return webhookAccounts().find(account => account.credentials.id === id)?.name ?? null;
+}
+
+// Webhooks v2 use create/change/delete; v1 used added/updated/merged/deleted
+function normalizeAction(action: unknown): WebhookAction | null {
+  switch (action) {
+    case 'create':
+    case 'added':
+      return 'create';
+    case 'change':
+    case 'updated':
+    case 'merged':
+      return 'change';
+    case 'delete':
+    case 'deleted':
+      return 'delete';
+    default:
+      return null;
+  }
+}
+
+function changedFields(previous: any, current: any): WebhookEvent['changes'] {
+  const changes: WebhookEvent['changes'] = {};
+  if (!previous || typeof previous !== 'object') {
+    return changes;
+  }
+  for (const [key, value] of Object.entries(previous)) {
+    if (key === 'update_time') {
+      continue;
+    }
+    const now = current && typeof current === 'object' ? current[key] : undefined;
+    if (JSON.stringify(value) !== JSON.stringify(now)) {
+      changes[key] = { previous: value, current: now ?? null };
+    }
+  }
+  return changes;
+}
+
+// Turns a webhook payload of either version into a log entry, or null when it is not about a logged entity
+export function parseWebhookPayload(payload: any, account: string, receivedAt = new Date()): WebhookEvent | null {
+  const meta = payload?.meta ?? {};
+  const entity = meta.entity ?? meta.object;
+  const action = normalizeAction(meta.action);
+  if (!WEBHOOK_ENTITIES.includes(entity) || !action) {
+    return null;
+  }
+  const current = payload.data ?? payload.current ?? null;
+  const previous = payload.previous ?? null;
+  const record = current ?? previous ?? {};
+  const number = (value: unknown) => value === null || value === undefined || !Number.isFinite(Number(value)) ? null : Number(value);
+  const timestamp = meta.timestamp;
+  const time = typeof timestamp === 'number'
+    // v1 sends seconds
+    ? new Date(timestamp < 1e12 ? timestamp * 1000 : timestamp).toISOString()
+    : typeof timestamp === 'string' && !Number.isNaN(Date.parse(timestamp)) ? new Date(Date.parse(timestamp)).toISOString() : null;
+
+  return {
+    id: randomUUID(),
+    received_at: receivedAt.toISOString(),
+    time,
+    action,
+    entity,
+    entity_id: number(meta.entity_id ?? meta.id ?? record.id),
+    user_id: number(meta.user_id),
+    label: record.title ?? record.name ?? record.subject ?? null,
+    changes: action === 'change' ? changedFields(previous, current) : {},
+    account
+  };
+}
+
+function recordEvent(event: WebhookEvent): void {
+  events.push(event);
+  if (events.length > maxEvents) {
+    events.splice(0, events.length - maxEvents);
+    completeSince = events[0].received_at;
+  }
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.error("Error handling a webhook event", { event: event.id, error });
+    }
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Webhook payload too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+// Every account gets its own subscription URL, so events are logged under the right one
+function subscriptionUrl(config: WebhookConfig, account: Account): string {
+  const url = new URL(config.url);
+  url.searchParams.set('account', account.name);
+  return url.toString();
+}
+
+/**
+ * Creates the receiver for Pipedrive webhooks posted to PIPEDRIVE_WEBHOOK_URL.
+ * Requests must carry the configured basic auth credentials; accepted events
+ * are added to the log and passed to the `onWebhookEvent` listeners.
+ * `register` subscribes every configured account to changes of deals,
+ * persons, organizations and activities, once per subscription URL. Default
+ * credentials that are no configured account, i.e. a stored OAuth
+ * authorization, are handled as an account named "default".
+ */
+export function createWebhookReceiver(config: WebhookConfig, defaultCredentials: PipedriveCredentials | null = null) {
+  const path = new URL(config.url).pathname;
+  const expectedAuth = Buffer.from(`Basic ${Buffer.from(`${config.user}:${config.password}`).toString('base64')}`);
+  maxEvents = config.logSize;
+  oauthAccount = defaultCredentials && !listAccounts().accounts.some(account => account.credentials.id === defaultCredentials.id)
+    ? { name: 'default', companyDomain: null, credentials: defaultCredentials }
+    : null;
+  completeSince = new Date().toISOString();
+
+  function isAuthorized(req: IncomingMessage): boolean {
+    const given = Buffer.from(req.headers.authorization || '');
+    return given.length === expectedAuth.length && timingSafeEqual(given, expectedAuth);
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { 'Allow': 'POST' }).end();
+      return;
+    }
+    if (!isAuthorized(req)) {
+      logger.warn("Rejected a webhook request with wrong credentials");
+      res.writeHead(401, { 'WWW-Authenticate': 'Basic' }).end();
+      return;
+    }
+    const account = webhookAccounts().find(candidate => candidate.name === url.searchParams.get('account'));
+    if (!account) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(await readBody(req));
+    } catch (error) {
+      logger.warn("Rejected an unreadable webhook payload", { error });
+      res.writeHead(400).end();
+      return;
+    }
+
+    const event = parseWebhookPayload(payload, account.name);
+    if (event) {
+      logger.debug("Webhook event received", { account: account.name, action: event.action, entity: event.entity, entity_id: event.entity_id });
+      recordEvent(event);
+    }
+    // Pipedrive retries anything but a 2xx, so events that are not logged are acknowledged too
+    res.writeHead(200).end();
+  }
+
+  async function registerAccount(account: Account): Promise<void> {
+    const url = subscriptionUrl(config, account);
+    const existing = await pipedriveRequest({ method: 'GET', path: '/v1/webhooks' });
+    const subscribed = new Set((existing.data || [])
+      .filter((webhook: any) => webhook.subscription_url === url && webhook.is_active !== 0 && webhook.is_active !== false)
+      .filter((webhook: any) => webhook.event_action === '*')
+      .map((webhook: any) => webhook.event_object));
+
+    for (const entity of WEBHOOK_ENTITIES) {
+      if (subscribed.has(entity) || subscribed.has('*')) {
+        continue;
+      }
+      await pipedriveRequest({
+        method: 'POST',
+        path: '/v1/webhooks',
+        body: {
+          subscription_url: url,
+          event_action: '*',
+          event_object: entity,
+          http_auth_user: config.user,
+          http_auth_password: config.password,
+          version: '2.0'
+        }
+      });
+      logger.info("Webhook registered", { account: account.name, entity });
+    }
+  }
+
+  // Failures are logged per account, so one account's missing permission does not stop the others
+  async function register(): Promise<void> {
+    for (const account of webhookAccounts()) {
+      try {
+        await withCredentials(account.credentials, () => registerAccount(account));
+      } catch (error) {
+        logger.warn("Could not register webhooks", { account: account.name, error });
+      }
+    }
+  }
+
+  // A receiver of its own, for when the MCP server itself does not listen on HTTP
+  async function listen(): Promise<Server> {
+    const server = createHttpServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (url.pathname !== path) {
+        res.writeHead(404).end();
+        return;
+      }
+      handle(req, res, url).catch(error => {
+        logger.error("Error handling webhook request", { error });
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(config.port, config.host, () => resolve());
+    });
+    return server;
+  }
+
+  return { path, handle, register, listen };
+}
+
+export type WebhookReceiver = ReturnType<typeof createWebhookReceiver>;